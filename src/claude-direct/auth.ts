@@ -0,0 +1,105 @@
+/**
+ * Authentication providers for claude-direct
+ *
+ * - ApiKeyAuth: standard `x-api-key` auth (production services)
+ * - OAuthBearerAuth: `Authorization: Bearer` + oauth beta (Claude Code CLI tokens)
+ */
+
+/**
+ * Supplies credentials for each request
+ */
+export interface AuthProvider {
+  /** Headers that authenticate a request */
+  getHeaders(): Record<string, string> | Promise<Record<string, string>>;
+  /** Beta flags this auth method requires (merged into anthropic-beta) */
+  readonly betas?: readonly string[];
+  /**
+   * Called after a 401. Return true if credentials changed and the request
+   * should be retried (it is retried once).
+   */
+  refresh?(): Promise<boolean>;
+}
+
+// OAuth tokens are rejected without this beta
+const OAUTH_BETA = "oauth-2025-04-20";
+
+/**
+ * Standard API key auth
+ */
+export class ApiKeyAuth implements AuthProvider {
+  constructor(private readonly apiKey: string) {}
+
+  getHeaders(): Record<string, string> {
+    return { "x-api-key": this.apiKey };
+  }
+}
+
+/**
+ * Result of an OAuth token refresh
+ */
+export interface RefreshedToken {
+  accessToken: string;
+  /** Epoch ms when the new token expires */
+  expiresAt?: number;
+}
+
+export interface OAuthBearerOptions {
+  /** Epoch ms when the token expires (enables proactive refresh) */
+  expiresAt?: number;
+  /** Obtain a fresh token (e.g. via refresh_token grant) */
+  refresh?: () => Promise<RefreshedToken>;
+  /** Refresh this long before expiry (default: 60s) */
+  refreshSkewMs?: number;
+}
+
+/**
+ * OAuth bearer auth (same protocol as the Claude Code CLI)
+ */
+export class OAuthBearerAuth implements AuthProvider {
+  readonly betas = [OAUTH_BETA];
+  private token: string;
+  private expiresAt?: number;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(token: string, private readonly options: OAuthBearerOptions = {}) {
+    this.token = token;
+    this.expiresAt = options.expiresAt;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    const skew = this.options.refreshSkewMs ?? 60_000;
+    if (this.options.refresh && this.expiresAt && Date.now() >= this.expiresAt - skew) {
+      await this.refresh();
+    }
+    return { "Authorization": `Bearer ${this.token}` };
+  }
+
+  async refresh(): Promise<boolean> {
+    const refresher = this.options.refresh;
+    if (!refresher) return false;
+
+    // Concurrent 401s share one refresh
+    if (!this.refreshing) {
+      this.refreshing = refresher()
+        .then((next) => {
+          this.token = next.accessToken;
+          this.expiresAt = next.expiresAt;
+          return true;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+}
+
+/**
+ * Pick an auth provider from the environment.
+ * ANTHROPIC_API_KEY takes precedence over CLAUDE_CODE_OAUTH_TOKEN (same as the CLI).
+ */
+export function authFromEnv(env: NodeJS.ProcessEnv = process.env): AuthProvider | null {
+  if (env.ANTHROPIC_API_KEY) return new ApiKeyAuth(env.ANTHROPIC_API_KEY);
+  if (env.CLAUDE_CODE_OAUTH_TOKEN) return new OAuthBearerAuth(env.CLAUDE_CODE_OAUTH_TOKEN);
+  return null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Message Batches: many requests processed asynchronously at half price
+ *
+ *   POST /v1/messages/batches               create ({ requests: [{ custom_id, params }] })
+ *   GET  /v1/messages/batches/{id}          status and request counts
+ *   GET  /v1/messages/batches/{id}/results  JSONL, one line per request, in any order
+ *   POST /v1/messages/batches/{id}/cancel
+ *   GET  /v1/messages/batches               list (newest first, paginated)
+ *
+ * The client methods (createBatch, pollBatch, batchResults, ...) live on
+ * ClaudeDirect; this module holds the types and the wire-format conversion.
+ */
+
+import { InvalidOptionsError } from "./errors.js";
+import type { QueryOptions } from "./index.js";
+import type { APIMessage, TextBlock } from "./types.js";
+
+// Batch requests are billed at 50% of the standard price
+export const BATCH_PRICE_FACTOR = 0.5;
+
+export const MAX_BATCH_REQUESTS = 100_000;
+
+const CUSTOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface BatchRequest extends Omit<QueryOptions, "stream" | "signal" | "timeoutMs" | "bypassCache"> {
+  /** Matches the request to its result (1-64 letters, digits, "_" or "-", unique per batch) */
+  customId: string;
+}
+
+export type BatchStatus = "in_progress" | "canceling" | "ended";
+
+export interface BatchRequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+export interface Batch {
+  id: string;
+  status: BatchStatus;
+  requestCounts: BatchRequestCounts;
+  /** ISO timestamps */
+  createdAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+  cancelInitiatedAt: string | null;
+  /** Set once the batch has ended */
+  resultsUrl: string | null;
+}
+
+export type BatchResult =
+  | {
+      customId: string;
+      type: "succeeded";
+      message: APIMessage;
+      /** Text of the response's text blocks */
+      content: string;
+      /** Cost at batch pricing */
+      costUsd: number;
+    }
+  | { customId: string; type: "errored"; error: { type: string; message: string } }
+  | { customId: string; type: "canceled" }
+  | { customId: string; type: "expired" };
+
+export interface PollBatchOptions {
+  /** First wait between status checks (default: 5s) */
+  intervalMs?: number;
+  /** Waits grow 1.5x per check up to this (default: 60s) */
+  maxIntervalMs?: number;
+  /** Give up after this long (rejects with APITimeoutError) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Called with every status fetched, including the final one */
+  onProgress?: (batch: Batch) => void;
+}
+
+export interface ListBatchesOptions {
+  /** Page size, 1-1000 (default: 20) */
+  limit?: number;
+  /** Page after this batch ID */
+  afterId?: string;
+  /** Page before this batch ID */
+  beforeId?: string;
+}
+
+export interface BatchPage {
+  batches: Batch[];
+  hasMore: boolean;
+  firstId: string | null;
+  lastId: string | null;
+}
+
+/**
+ * Check batch size and custom IDs before anything is sent
+ */
+export function validateBatchRequests(requests: BatchRequest[]): void {
+  if (requests.length === 0 || requests.length > MAX_BATCH_REQUESTS) {
+    throw new InvalidOptionsError(`A batch needs 1 to ${MAX_BATCH_REQUESTS} requests (got ${requests.length})`);
+  }
+
+  const seen = new Set<string>();
+  for (const { customId } of requests) {
+    if (!CUSTOM_ID_PATTERN.test(customId)) {
+      throw new InvalidOptionsError(`Invalid batch customId "${customId}" (1-64 letters, digits, "_" or "-")`);
+    }
+    if (seen.has(customId)) {
+      throw new InvalidOptionsError(`Duplicate batch customId "${customId}"`);
+    }
+    seen.add(customId);
+  }
+}
+
+/**
+ * Convert the API's message_batch object
+ */
+export function toBatch(raw: any): Batch {
+  return {
+    id: raw.id,
+    status: raw.processing_status,
+    requestCounts: {
+      processing: raw.request_counts?.processing || 0,
+      succeeded: raw.request_counts?.succeeded || 0,
+      errored: raw.request_counts?.errored || 0,
+      canceled: raw.request_counts?.canceled || 0,
+      expired: raw.request_counts?.expired || 0,
+    },
+    createdAt: raw.created_at,
+    expiresAt: raw.expires_at,
+    endedAt: raw.ended_at ?? null,
+    cancelInitiatedAt: raw.cancel_initiated_at ?? null,
+    resultsUrl: raw.results_url ?? null,
+  };
+}
+
+/**
+ * Convert one results line; `price` gives the full-price cost of a message
+ */
+export function toBatchResult(raw: any, price: (message: APIMessage) => number): BatchResult {
+  const customId = raw.custom_id;
+  const result = raw.result || {};
+
+  switch (result.type) {
+    case "succeeded": {
+      const message: APIMessage = result.message;
+      return {
+        customId,
+        type: "succeeded",
+        message,
+        content: message.content
+          .filter((b): b is TextBlock => b.type === "text")
+          .map((b) => b.text)
+          .join(""),
+        costUsd: price(message) * BATCH_PRICE_FACTOR,
+      };
+    }
+    case "errored": {
+      // { type: "error", error: { type, message } }
+      const error = result.error?.error || result.error || {};
+      return { customId, type: "errored", error: { type: error.type || "unknown", message: error.message || "" } };
+    }
+    case "canceled":
+    case "expired":
+      return { customId, type: result.type };
+    default:
+      return { customId, type: "errored", error: { type: "unknown", message: `Unknown result type: ${result.type}` } };
+  }
+}
+
+/**
+ * Split a byte stream into parsed JSON lines
+ */
+export async function* parseJsonLines(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+
+  const tail = buffer + decoder.decode();
+  if (tail.trim()) yield JSON.parse(tail);
+}
@@ -0,0 +1,110 @@
+/**
+ * Prompt caching breakpoints
+ *
+ * The API caches the request prefix up to each block marked with
+ * `cache_control` (max 4 per request). Prefix order is tools → system → messages,
+ * so a breakpoint on the last tool caches every tool definition, one on the
+ * system prompt caches tools + system, and one on a message caches everything
+ * up to and including it.
+ *
+ * "auto" places breakpoints at the end of the tools, the end of the system
+ * prompt and on the last user turn. In a tool loop each call re-sends the
+ * previous call's prefix, so the next turn reads from the cache what this
+ * turn wrote.
+ */
+
+import { InvalidOptionsError } from "./errors.js";
+import type { CacheControl, ContentBlock, Message } from "./types.js";
+
+export interface CacheOptions {
+  /** Breakpoint at the end of the system prompt */
+  system?: boolean;
+  /** Breakpoint on the last tool definition */
+  tools?: boolean;
+  /** Breakpoints on the last N user turns */
+  messages?: number;
+  /** Cache lifetime (default: 5m) */
+  ttl?: "5m" | "1h";
+}
+
+export type CacheSetting = "auto" | CacheOptions;
+
+// API limit on cache_control blocks per request
+const MAX_BREAKPOINTS = 4;
+
+const AUTO_CACHE: CacheOptions = { tools: true, system: true, messages: 1 };
+
+/**
+ * Add cache_control breakpoints to a request body. Returns a new body;
+ * the caller's messages, tools and system prompt are not mutated.
+ */
+export function applyCacheControl(body: Record<string, any>, setting: CacheSetting): Record<string, any> {
+  const options = setting === "auto" ? AUTO_CACHE : setting;
+  const marker: CacheControl = options.ttl ? { type: "ephemeral", ttl: options.ttl } : { type: "ephemeral" };
+  const result = { ...body };
+
+  const existing = countBreakpoints(body);
+  const requested =
+    (options.tools && body.tools?.length ? 1 : 0) + (options.system && body.system ? 1 : 0) + (options.messages || 0);
+
+  if (setting !== "auto" && existing + requested > MAX_BREAKPOINTS) {
+    throw new InvalidOptionsError(
+      `Too many cache breakpoints: ${existing + requested} requested, the API allows ${MAX_BREAKPOINTS}`
+    );
+  }
+
+  let budget = MAX_BREAKPOINTS - existing;
+
+  if (options.tools && body.tools?.length && budget > 0) {
+    const tools = [...body.tools];
+    tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: marker };
+    result.tools = tools;
+    budget--;
+  }
+
+  if (options.system && body.system && budget > 0) {
+    const blocks = typeof body.system === "string" ? [{ type: "text", text: body.system }] : [...body.system];
+    blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: marker };
+    result.system = blocks;
+    budget--;
+  }
+
+  if (options.messages && body.messages?.length) {
+    const messages: Message[] = [...body.messages];
+    let remaining = Math.min(options.messages, budget);
+
+    for (let i = messages.length - 1; i >= 0 && remaining > 0; i--) {
+      if (messages[i].role !== "user") continue;
+      messages[i] = markLastBlock(messages[i], marker);
+      remaining--;
+    }
+    result.messages = messages;
+  }
+
+  return result;
+}
+
+/**
+ * Copy of a message with cache_control on its last content block
+ */
+function markLastBlock(message: Message, marker: CacheControl): Message {
+  const blocks: ContentBlock[] =
+    typeof message.content === "string" ? [{ type: "text", text: message.content }] : [...message.content];
+  if (blocks.length === 0) return message;
+
+  blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: marker } as ContentBlock;
+  return { ...message, content: blocks };
+}
+
+/**
+ * Breakpoints the caller already placed by hand
+ */
+function countBreakpoints(body: Record<string, any>): number {
+  let count = 0;
+  for (const tool of body.tools || []) if (tool.cache_control) count++;
+  if (Array.isArray(body.system)) for (const block of body.system) if (block.cache_control) count++;
+  for (const message of body.messages || []) {
+    if (Array.isArray(message.content)) for (const block of message.content) if (block.cache_control) count++;
+  }
+  return count;
+}
@@ -0,0 +1,265 @@
+/**
+ * Image and document content blocks from files, buffers or URLs
+ *
+ * Media types come from magic bytes, not file names. Limits are checked
+ * before anything is uploaded:
+ *   images     jpeg / png / gif / webp, at most 5 MB and 8000 px per side
+ *   documents  pdf, at most 32 MB and 100 pages
+ * There is no built-in image codec: images over the limits (or over
+ * `maxDimension`) go through the `resize` hook when one is given.
+ *
+ * URLs become URL sources, fetched by the API, unless `inline` is set; then
+ * they are downloaded, checked and sent as base64 like local files.
+ */
+
+import { readFile } from "fs/promises";
+import { ClaudeDirectError } from "./errors.js";
+import type { FetchLike } from "./index.js";
+import type { CacheControl, DocumentBlock, ImageBlock } from "./types.js";
+
+/** File path, http(s) URL, or raw bytes */
+export type ContentInput = string | URL | Uint8Array;
+
+export type ImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+export interface ImageInfo {
+  mediaType: ImageMediaType;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+/**
+ * Downscale an image to fit within maxDimension per side and maxBytes
+ * (e.g. with sharp). May return any supported format.
+ */
+export type ImageResizer = (
+  data: Buffer,
+  target: ImageInfo & { maxDimension: number; maxBytes: number }
+) => Uint8Array | Promise<Uint8Array>;
+
+interface SourceOptions {
+  /** Download URLs and send them as base64 instead of URL sources */
+  inline?: boolean;
+  /** Transport for inline downloads (default: global fetch) */
+  fetch?: FetchLike;
+  cacheControl?: CacheControl;
+}
+
+export interface ImageOptions extends SourceOptions {
+  /** Longest side allowed before resizing (default and maximum: 8000; 1568 avoids server-side downscaling) */
+  maxDimension?: number;
+  resize?: ImageResizer;
+}
+
+export interface DocumentOptions extends SourceOptions {
+  title?: string;
+  /** Information about the document for the model (not cited) */
+  context?: string;
+  /** Let the model cite passages of the document */
+  citations?: boolean;
+}
+
+/**
+ * Content that cannot be sent: unsupported type, or over the size, dimension or page limits
+ */
+export class InvalidContentError extends ClaudeDirectError {}
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGE_DIMENSION = 8000;
+export const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+export const MAX_DOCUMENT_PAGES = 100;
+
+const MB = 1024 * 1024;
+
+/**
+ * Media type from a file's leading bytes (undefined if not a supported type)
+ */
+export function detectMediaType(data: Uint8Array): ImageMediaType | "application/pdf" | undefined {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (/^GIF8[79]a$/.test(bytes.toString("latin1", 0, 6))) return "image/gif";
+  if (bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+  if (bytes.toString("latin1", 0, 5) === "%PDF-") return "application/pdf";
+  return undefined;
+}
+
+/**
+ * Media type and pixel dimensions of an image, read from its header
+ */
+export function imageInfo(data: Uint8Array): ImageInfo {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const mediaType = detectMediaType(bytes);
+  let size: { width: number; height: number } | undefined;
+
+  try {
+    switch (mediaType) {
+      case "image/png":
+        size = { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+        break;
+      case "image/gif":
+        size = { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+        break;
+      case "image/jpeg":
+        size = jpegSize(bytes);
+        break;
+      case "image/webp":
+        size = webpSize(bytes);
+        break;
+    }
+  } catch {
+    // Truncated header, reported below
+  }
+
+  if (!mediaType || mediaType === "application/pdf") {
+    throw new InvalidContentError(`Unsupported image type: ${mediaType ?? "unknown"} (jpeg, png, gif or webp)`);
+  }
+  if (!size) {
+    throw new InvalidContentError(`Could not read the dimensions of this ${mediaType} image`);
+  }
+  return { mediaType, ...size, bytes: bytes.length };
+}
+
+// Start-of-frame markers carry the dimensions (C4, C8 and CC are other segments)
+function jpegSize(bytes: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function webpSize(bytes: Buffer): { width: number; height: number } | undefined {
+  switch (bytes.toString("latin1", 12, 16)) {
+    case "VP8 ": // Lossy
+      return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    case "VP8L": {
+      // Lossless: 14-bit width - 1, 14-bit height - 1
+      const bits = bytes.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X": // Extended: 24-bit width - 1, height - 1
+      return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Approximate page count of a PDF (0 when pages are hidden in compressed object streams)
+ */
+export function countPdfPages(data: Uint8Array): number {
+  const text = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("latin1");
+  return text.match(/\/Type\s*\/Page(?!s)/g)?.length ?? 0;
+}
+
+/**
+ * Image block from a file path, URL or bytes. Checks type and limits,
+ * resizing through options.resize when the image is too large.
+ */
+export async function imageBlock(input: ContentInput, options: ImageOptions = {}): Promise<ImageBlock> {
+  const loaded = await load(input, options);
+  if (typeof loaded === "string") {
+    return withCacheControl({ type: "image", source: { type: "url", url: loaded } }, options);
+  }
+
+  const maxDimension = Math.min(options.maxDimension ?? MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION);
+  const fits = (info: ImageInfo) =>
+    info.width <= maxDimension && info.height <= maxDimension && info.bytes <= MAX_IMAGE_BYTES;
+  const describe = (info: ImageInfo) =>
+    `${info.width}x${info.height} px, ${(info.bytes / MB).toFixed(1)} MB; limits are ${maxDimension} px per side and ${MAX_IMAGE_BYTES / MB} MB`;
+
+  let data = loaded;
+  let info = imageInfo(data);
+  if (!fits(info)) {
+    if (!options.resize) {
+      throw new InvalidContentError(`Image is ${describe(info)} (pass resize to downscale it)`);
+    }
+    data = Buffer.from(await options.resize(data, { ...info, maxDimension, maxBytes: MAX_IMAGE_BYTES }));
+    info = imageInfo(data);
+    if (!fits(info)) {
+      throw new InvalidContentError(`Resized image is still ${describe(info)}`);
+    }
+  }
+
+  return withCacheControl(
+    { type: "image", source: { type: "base64", media_type: info.mediaType, data: data.toString("base64") } },
+    options
+  );
+}
+
+/**
+ * PDF document block from a file path, URL or bytes
+ */
+export async function documentBlock(input: ContentInput, options: DocumentOptions = {}): Promise<DocumentBlock> {
+  const loaded = await load(input, options);
+  if (typeof loaded === "string") {
+    return documentWithOptions({ type: "document", source: { type: "url", url: loaded } }, options);
+  }
+
+  const mediaType = detectMediaType(loaded);
+  if (mediaType !== "application/pdf") {
+    throw new InvalidContentError(`Unsupported document type: ${mediaType ?? "unknown"} (PDF only; use textDocument for text)`);
+  }
+  if (loaded.length > MAX_DOCUMENT_BYTES) {
+    throw new InvalidContentError(
+      `PDF is ${(loaded.length / MB).toFixed(1)} MB; the limit is ${MAX_DOCUMENT_BYTES / MB} MB`
+    );
+  }
+  const pages = countPdfPages(loaded);
+  if (pages > MAX_DOCUMENT_PAGES) {
+    throw new InvalidContentError(`PDF has ${pages} pages; the limit is ${MAX_DOCUMENT_PAGES}`);
+  }
+
+  return documentWithOptions(
+    { type: "document", source: { type: "base64", media_type: "application/pdf", data: loaded.toString("base64") } },
+    options
+  );
+}
+
+/**
+ * Plain-text document block (citable like a PDF)
+ */
+export function textDocument(text: string, options: Omit<DocumentOptions, "inline" | "fetch"> = {}): DocumentBlock {
+  return documentWithOptions({ type: "document", source: { type: "text", media_type: "text/plain", data: text } }, options);
+}
+
+/**
+ * Bytes of a file or downloaded URL, or the URL itself when it is sent as a URL source
+ */
+async function load(input: ContentInput, options: SourceOptions): Promise<Buffer | string> {
+  if (input instanceof URL || (typeof input === "string" && /^https?:\/\//i.test(input))) {
+    const url = input instanceof URL ? input.href : input;
+    if (!options.inline) return url;
+
+    const transport = options.fetch || ((u: string, init: RequestInit) => globalThis.fetch(u, init));
+    const res = await transport(url, { method: "GET" });
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new InvalidContentError(`Download failed: ${res.status} ${url}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  if (typeof input === "string") {
+    return readFile(input);
+  }
+  return Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+}
+
+function withCacheControl<T extends ImageBlock | DocumentBlock>(block: T, options: SourceOptions): T {
+  return options.cacheControl ? { ...block, cache_control: options.cacheControl } : block;
+}
+
+function documentWithOptions(block: DocumentBlock, options: Omit<DocumentOptions, "inline" | "fetch">): DocumentBlock {
+  if (options.title) block.title = options.title;
+  if (options.context) block.context = options.context;
+  if (options.citations) block.citations = { enabled: true };
+  return withCacheControl(block, options);
+}
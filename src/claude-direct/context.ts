@@ -0,0 +1,260 @@
+/**
+ * Context compaction for long conversations and tool loops
+ *
+ * The tool loop resends the full history every turn, so it grows until it no
+ * longer fits the context window. Before each call the history size is
+ * counted; past the threshold a strategy shrinks it:
+ *
+ * - truncateToolResults: cut old tool_result payloads (the usual bulk)
+ * - summarizeOlder: replace older turns with a model-written summary
+ * - keepFirstAndLast: keep the task and the most recent turns only
+ *
+ * Strategies work on whole turns. A turn is an assistant message plus the
+ * user message after it, and that user message carries the tool_results for
+ * the assistant's tool_use blocks, so removing turns never separates a
+ * tool_use from its tool_result. The first user message (the task) is always kept.
+ */
+
+import type { ClaudeDirect } from "./index.js";
+import { estimateRequestTokens, type TokenCounter } from "./tokens.js";
+import type { ContentBlock, Message, ToolResultContent, Usage } from "./types.js";
+
+export interface CompactionContext {
+  client: ClaudeDirect;
+  signal?: AbortSignal;
+  /** Report a model call the strategy made, so the loop can count it */
+  addUsage?: (usage: Usage, costUsd: number) => void;
+}
+
+export interface CompactionStrategy {
+  /** Reported in Compaction.strategy */
+  name: string;
+  compact(messages: Message[], context: CompactionContext): Promise<Message[]>;
+}
+
+export interface ContextOptions {
+  /** Compact when the request is estimated above this many tokens (default: 150000) */
+  threshold?: number;
+  /** How to shrink the history (default: truncateToolResults()) */
+  strategy?: CompactionStrategy;
+  /** Token counter for the request (default: estimateRequestTokens) */
+  countTokens?: TokenCounter;
+}
+
+/**
+ * One compaction, as reported on ToolLoopResult.compactions
+ */
+export interface Compaction {
+  /** Loop turn before which the history was compacted */
+  turn: number;
+  strategy: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  messagesBefore: number;
+  messagesAfter: number;
+  /** Model calls of the strategy (summarizeOlder's summary), included in the loop's totals */
+  usage: Usage;
+  costUsd: number;
+}
+
+const DEFAULT_THRESHOLD = 150_000;
+
+// Marks payloads a previous compaction already shortened
+const TRUNCATED_SUFFIX = " chars truncated]";
+const REMOVED = "[result removed]";
+
+/**
+ * Compact the history if it is over the threshold. Returns the new history
+ * and a report, or null when nothing had to be done.
+ */
+export async function compactIfNeeded(
+  messages: Message[],
+  options: ContextOptions,
+  request: { systemPrompt?: string; tools?: any[]; turn: number } & CompactionContext
+): Promise<{ messages: Message[]; compaction: Compaction } | null> {
+  const { threshold = DEFAULT_THRESHOLD, strategy = truncateToolResults(), countTokens = estimateRequestTokens } = options;
+  const count = (history: Message[]) =>
+    countTokens({ messages: history, systemPrompt: request.systemPrompt, tools: request.tools });
+
+  if (messages.length === 0) return null;
+  const tokensBefore = await count(messages);
+  if (tokensBefore <= threshold) return null;
+
+  const usage = { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+  let costUsd = 0;
+  const addUsage = (callUsage: Usage, callCostUsd: number) => {
+    usage.input_tokens += callUsage.input_tokens;
+    usage.output_tokens += callUsage.output_tokens;
+    usage.cache_creation_input_tokens += callUsage.cache_creation_input_tokens || 0;
+    usage.cache_read_input_tokens += callUsage.cache_read_input_tokens || 0;
+    costUsd += callCostUsd;
+  };
+
+  const compacted = await strategy.compact(messages, { client: request.client, signal: request.signal, addUsage });
+  return {
+    messages: compacted,
+    compaction: {
+      turn: request.turn,
+      strategy: strategy.name,
+      tokensBefore,
+      tokensAfter: await count(compacted),
+      messagesBefore: messages.length,
+      messagesAfter: compacted.length,
+      usage,
+      costUsd,
+    },
+  };
+}
+
+/**
+ * Shorten tool_result payloads outside the most recent turns.
+ * `maxChars: 0` drops the payloads entirely.
+ */
+export function truncateToolResults(options: { keepRecent?: number; maxChars?: number } = {}): CompactionStrategy {
+  const { keepRecent = 2, maxChars = 200 } = options;
+
+  return {
+    name: "truncate_tool_results",
+    async compact(messages) {
+      const { first, turns } = splitTurns(messages);
+      const older = turns.slice(0, Math.max(0, turns.length - keepRecent));
+
+      for (const turn of older) {
+        for (const message of turn) {
+          if (typeof message.content === "string") continue;
+          message.content = message.content.map((block) => {
+            if (block.type !== "tool_result") return block;
+            // Images and documents in old results become placeholders
+            const text = toolResultText(block.content);
+            if (text.length <= maxChars) return text === block.content ? block : { ...block, content: text };
+            if (text === REMOVED || text.endsWith(TRUNCATED_SUFFIX)) return block;
+            const omitted = text.length - maxChars;
+            const content = maxChars === 0 ? REMOVED : `${text.slice(0, maxChars)}… [${omitted}${TRUNCATED_SUFFIX}`;
+            return { ...block, content };
+          });
+        }
+      }
+
+      return [first, ...turns.flat()];
+    },
+  };
+}
+
+/**
+ * Keep the task, the first `first` turns and the last `last` turns
+ */
+export function keepFirstAndLast(options: { first?: number; last?: number } = {}): CompactionStrategy {
+  const { first: keepFirst = 1, last: keepLast = 4 } = options;
+
+  return {
+    name: "keep_first_and_last",
+    async compact(messages) {
+      const { first, turns } = splitTurns(messages);
+      const last = Math.max(1, keepLast);
+      if (turns.length <= keepFirst + last) return [first, ...turns.flat()];
+
+      const head = [first, ...turns.slice(0, keepFirst).flat()];
+      const dropped = turns.length - keepFirst - last;
+
+      // Tell the model about the gap in the user turn that precedes it
+      const before = head[head.length - 1];
+      head[head.length - 1] = withNote(before, `[${dropped} earlier turns omitted to fit the context window]`);
+
+      return [...head, ...turns.slice(turns.length - last).flat()];
+    },
+  };
+}
+
+/**
+ * Replace older turns with a summary written by a (cheap) model call.
+ * `client` defaults to the loop's client; pass e.g. a Haiku client to save cost.
+ */
+export function summarizeOlder(
+  options: { keepRecent?: number; client?: ClaudeDirect; maxTokens?: number } = {}
+): CompactionStrategy {
+  const { keepRecent = 4, maxTokens = 1024 } = options;
+
+  return {
+    name: "summarize_older",
+    async compact(messages, context) {
+      const { first, turns } = splitTurns(messages);
+      const recent = Math.max(1, keepRecent);
+      if (turns.length <= recent) return [first, ...turns.flat()];
+
+      const older = turns.slice(0, turns.length - recent).flat();
+      const summary = await (options.client || context.client).query({
+        messages: [{ role: "user", content: transcript(older) }],
+        systemPrompt:
+          "Summarize this conversation excerpt for the assistant that will continue it. " +
+          "Keep facts, decisions, tool results that are still needed, and open questions. Be concise.",
+        maxTokens,
+        signal: context.signal,
+        skipSession: true, // Not part of the conversation: resuming must not see it as the latest history
+      });
+      context.addUsage?.(summary.usage, summary.costUsd);
+
+      return [withNote(first, `[Summary of earlier turns]\n${summary.content}`), ...turns.slice(-recent).flat()];
+    },
+  };
+}
+
+/**
+ * Split history into the first user message and removable turns
+ * (assistant message + the user message answering it). Messages are copied.
+ */
+function splitTurns(messages: Message[]): { first: Message; turns: Message[][] } {
+  const [first, ...rest] = structuredClone(messages);
+  const turns: Message[][] = [];
+  for (let i = 0; i < rest.length; i += 2) {
+    turns.push(rest.slice(i, i + 2));
+  }
+  return { first, turns };
+}
+
+function withNote(message: Message, note: string): Message {
+  const blocks: ContentBlock[] =
+    typeof message.content === "string" ? [{ type: "text", text: message.content }] : [...message.content];
+  return { ...message, content: [...blocks, { type: "text", text: note }] };
+}
+
+/**
+ * Plain-text rendering of messages for the summarizer
+ */
+function transcript(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const blocks = typeof message.content === "string" ? [{ type: "text" as const, text: message.content }] : message.content;
+      const parts = blocks.map((block) => {
+        switch (block.type) {
+          case "text":
+            return block.text;
+          case "tool_use":
+            return `[tool call ${block.name}: ${JSON.stringify(block.input)}]`;
+          case "tool_result":
+            return `[tool result${block.is_error ? " (error)" : ""}: ${toolResultText(block.content).slice(0, 2000)}]`;
+          case "image":
+            return "[image]";
+          case "document":
+            return `[document${block.title ? ` ${block.title}` : ""}]`;
+          default:
+            return "";
+        }
+      });
+      return `${message.role.toUpperCase()}: ${parts.filter(Boolean).join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Text of a tool_result payload, with images and documents as placeholders
+ */
+function toolResultText(content: ToolResultContent): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((block) => {
+      if (block.type === "text") return block.text;
+      if (block.type === "image") return "[image]";
+      return `[document${block.title ? ` ${block.title}` : ""}]`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,223 @@
+/**
+ * Multi-turn conversation state
+ *
+ * A Conversation owns the system prompt, tools and message history, so callers
+ * send one user turn at a time instead of rebuilding Message[] for every query.
+ * Each send runs the tool loop, so assistant tool_use turns and their
+ * tool_result turns land in the history exactly as the API produced them.
+ *
+ *   const chat = client.conversation({ systemPrompt: "Be brief." });
+ *   await chat.send("Hi");
+ *   await chat.send("And again?");
+ *   chat.undo(); // drop the last exchange
+ */
+
+import type { CacheSetting } from "./caching.js";
+import type { ContextOptions } from "./context.js";
+import { InvalidOptionsError } from "./errors.js";
+import type { ToolLoopHooks } from "./hooks.js";
+import type { ClaudeDirect, ThinkingOptions } from "./index.js";
+import type { PermissionOptions } from "./permissions.js";
+import {
+  executeToolLoop,
+  streamToolLoop,
+  type ToolDefinition,
+  type ToolHandler,
+  type ToolLoopEvent,
+  type ToolLoopOptions,
+  type ToolLoopResult,
+} from "./tool-loop.js";
+import type { PreflightOptions } from "./tokens.js";
+import type { ContentBlock, Message } from "./types.js";
+
+export interface ConversationOptions extends PermissionOptions {
+  systemPrompt?: string;
+  tools?: ToolDefinition[];
+  toolHandlers?: Record<string, ToolHandler>;
+  /** Initial history (must start with a user turn and alternate roles) */
+  messages?: Message[];
+  maxTokens?: number;
+  /** Tool loop turns per send (default: 10) */
+  maxTurns?: number;
+  thinking?: ThinkingOptions;
+  cacheControl?: CacheSetting;
+  /** Compact the history when it grows past a token threshold (the compacted history is kept) */
+  context?: ContextOptions;
+  /** Token limits checked before every request (see ToolLoopOptions.preflight) */
+  preflight?: PreflightOptions;
+  /** Tools of one turn allowed to run at once (see ToolLoopOptions.concurrency) */
+  concurrency?: number;
+  /** Usage counter tags for every request (see client.usage) */
+  tags?: string[];
+  /** Tool loop hooks for every send */
+  hooks?: ToolLoopHooks | ToolLoopHooks[];
+  /** Session to record under instead of the client's (set by resumeSession) */
+  sessionId?: string;
+}
+
+export interface SendOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface ConversationTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export class Conversation {
+  private history: Message[];
+  // History before each send, for undo
+  private previous: Message[][] = [];
+  private runningTotals: ConversationTotals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+
+  constructor(
+    private readonly client: ClaudeDirect,
+    private readonly options: ConversationOptions = {}
+  ) {
+    this.history = structuredClone(options.messages || []);
+    assertAlternating(this.history);
+  }
+
+  /**
+   * History so far (a copy; use send / undo / clear to change it)
+   */
+  get messages(): Message[] {
+    return structuredClone(this.history);
+  }
+
+  /**
+   * Tokens and estimated cost of every send, including undone exchanges
+   */
+  get totals(): ConversationTotals {
+    return { ...this.runningTotals };
+  }
+
+  /**
+   * Send a user turn and run it to completion (tools included).
+   * The history only changes if the call succeeds.
+   */
+  async send(content: string | ContentBlock[], options: SendOptions = {}): Promise<ToolLoopResult> {
+    const result = await executeToolLoop(this.client, this.loopOptions(content, options));
+    this.commit(result);
+    return result;
+  }
+
+  /**
+   * Streaming send: yields tool loop events, returns the final result.
+   * The history only changes if the stream runs to completion.
+   */
+  async *stream(
+    content: string | ContentBlock[],
+    options: SendOptions = {}
+  ): AsyncGenerator<ToolLoopEvent, ToolLoopResult, unknown> {
+    const result = yield* streamToolLoop(this.client, this.loopOptions(content, options));
+    this.commit(result);
+    return result;
+  }
+
+  /**
+   * Remove the last exchange (user turn, tool turns and reply). Returns the removed messages.
+   */
+  undo(): Message[] {
+    const before = this.previous.pop();
+    if (!before) return [];
+
+    const removed = this.history.slice(before.length);
+    this.history = before;
+    return removed;
+  }
+
+  /**
+   * Drop the whole history (totals are kept: the tokens were spent)
+   */
+  clear(): void {
+    this.history = [];
+    this.previous = [];
+  }
+
+  /**
+   * Independent copy with the same settings, history and totals
+   */
+  fork(): Conversation {
+    const copy = new Conversation(this.client, { ...this.options, messages: this.history });
+    copy.previous = structuredClone(this.previous);
+    copy.runningTotals = { ...this.runningTotals };
+    return copy;
+  }
+
+  private loopOptions(content: string | ContentBlock[], options: SendOptions): ToolLoopOptions {
+    return {
+      messages: appendUserTurn(this.history, content),
+      systemPrompt: this.options.systemPrompt,
+      tools: this.options.tools || [],
+      toolHandlers: this.options.toolHandlers || {},
+      maxTurns: this.options.maxTurns,
+      maxTokens: this.options.maxTokens,
+      thinking: this.options.thinking,
+      cacheControl: this.options.cacheControl,
+      context: this.options.context,
+      preflight: this.options.preflight,
+      concurrency: this.options.concurrency,
+      tags: this.options.tags,
+      permissionMode: this.options.permissionMode,
+      allowedTools: this.options.allowedTools,
+      disallowedTools: this.options.disallowedTools,
+      canUseTool: this.options.canUseTool,
+      hooks: this.options.hooks,
+      sessionId: this.options.sessionId,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    };
+  }
+
+  private commit(result: ToolLoopResult): void {
+    this.previous.push(this.history);
+    this.history = result.messages;
+
+    const totals = this.runningTotals;
+    totals.inputTokens += result.totalInputTokens;
+    totals.outputTokens += result.totalOutputTokens;
+    totals.cacheCreationInputTokens += result.totalCacheCreationInputTokens;
+    totals.cacheReadInputTokens += result.totalCacheReadInputTokens;
+    totals.costUsd += result.costUsd;
+  }
+}
+
+/**
+ * History plus a new user turn. If the history already ends with a user turn
+ * (e.g. tool results after maxTurns ran out), the content is merged into it
+ * so roles keep alternating.
+ */
+function appendUserTurn(history: Message[], content: string | ContentBlock[]): Message[] {
+  const last = history[history.length - 1];
+  if (last?.role !== "user") {
+    return [...history, { role: "user", content }];
+  }
+
+  return [...history.slice(0, -1), { role: "user", content: [...toBlocks(last.content), ...toBlocks(content)] }];
+}
+
+function toBlocks(content: string | ContentBlock[]): ContentBlock[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+function assertAlternating(messages: Message[]): void {
+  messages.forEach((message, i) => {
+    const expected = i % 2 === 0 ? "user" : "assistant";
+    if (message.role !== expected) {
+      throw new InvalidOptionsError(
+        `Conversation history must alternate user/assistant starting with user (message ${i} is "${message.role}")`
+      );
+    }
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Typed errors for claude-direct
+ *
+ * Every API failure is an APIError carrying the HTTP status, the parsed
+ * `error.type` / `error.message` from the body, the `request-id` header and
+ * the response headers, so callers can branch with `instanceof` instead of
+ * matching on message strings.
+ *
+ *   ClaudeDirectError
+ *   └── APIError
+ *       ├── InvalidRequestError     400 invalid_request_error
+ *       ├── AuthenticationError     401 authentication_error
+ *       ├── PermissionDeniedError   403 permission_error
+ *       ├── NotFoundError           404 not_found_error
+ *       ├── RateLimitError          429 rate_limit_error
+ *       ├── InternalServerError     5xx api_error
+ *       │   └── OverloadedError     529 overloaded_error
+ *       ├── APIConnectionError      no response (network failure)
+ *       │   └── APITimeoutError     no response in time
+ *       └── StreamInterruptedError  stream failed after the response started
+ */
+
+import { serverDelayMs } from "./retry.js";
+
+/**
+ * Base class for everything this library throws on purpose
+ */
+export class ClaudeDirectError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export interface APIErrorDetails {
+  /** HTTP status (undefined when no response was received) */
+  status?: number;
+  /** `error.type` from the response body, e.g. "overloaded_error" */
+  type?: string;
+  /** `error.message` from the response body */
+  errorMessage?: string;
+  /** `request-id` response header, for support tickets */
+  requestId?: string | null;
+  /** Response headers (rate limit state, retry hints) */
+  headers?: Headers;
+  /** Raw response body */
+  body?: string;
+  cause?: unknown;
+}
+
+/**
+ * An API call failed
+ */
+export class APIError extends ClaudeDirectError {
+  readonly status: number | undefined;
+  readonly type: string | undefined;
+  readonly errorMessage: string | undefined;
+  readonly requestId: string | null;
+  readonly headers: Headers | undefined;
+  readonly body: string | undefined;
+
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.status = details.status;
+    this.type = details.type;
+    this.errorMessage = details.errorMessage;
+    this.requestId = details.requestId ?? null;
+    this.headers = details.headers;
+    this.body = details.body;
+  }
+}
+
+export class InvalidRequestError extends APIError {}
+export class AuthenticationError extends APIError {}
+export class PermissionDeniedError extends APIError {}
+export class NotFoundError extends APIError {}
+
+export class RateLimitError extends APIError {
+  /** Server-suggested wait before retrying, if the headers carried one */
+  get retryAfterMs(): number | null {
+    return this.headers ? serverDelayMs(this.headers) : null;
+  }
+}
+
+export class InternalServerError extends APIError {}
+export class OverloadedError extends InternalServerError {}
+
+export class APIConnectionError extends APIError {}
+export class APITimeoutError extends APIConnectionError {}
+
+export class StreamInterruptedError extends APIError {}
+
+const ERRORS_BY_TYPE: Record<string, typeof APIError> = {
+  invalid_request_error: InvalidRequestError,
+  authentication_error: AuthenticationError,
+  permission_error: PermissionDeniedError,
+  not_found_error: NotFoundError,
+  rate_limit_error: RateLimitError,
+  overloaded_error: OverloadedError,
+  api_error: InternalServerError,
+};
+
+const ERRORS_BY_STATUS: Record<number, typeof APIError> = {
+  400: InvalidRequestError,
+  401: AuthenticationError,
+  403: PermissionDeniedError,
+  404: NotFoundError,
+  413: InvalidRequestError,
+  429: RateLimitError,
+  529: OverloadedError,
+};
+
+/**
+ * Pick the error class for a status and/or `error.type`
+ */
+export function errorClassFor(status: number | undefined, type: string | undefined): typeof APIError {
+  if (status !== undefined && ERRORS_BY_STATUS[status]) return ERRORS_BY_STATUS[status];
+  if (type && ERRORS_BY_TYPE[type]) return ERRORS_BY_TYPE[type];
+  if (status !== undefined && status >= 500) return InternalServerError;
+  return APIError;
+}
+
+/**
+ * Build a typed error from a non-OK response (consumes the body)
+ */
+export async function errorFromResponse(res: Response, context: string = "Inference failed"): Promise<APIError> {
+  const body = await res.text().catch(() => "");
+
+  let type: string | undefined;
+  let errorMessage: string | undefined;
+  try {
+    const parsed = JSON.parse(body);
+    type = parsed?.error?.type;
+    errorMessage = parsed?.error?.message;
+  } catch {
+    // Not JSON (proxy error page etc.), keep the raw body
+  }
+
+  const ErrorClass = errorClassFor(res.status, type);
+  const detail = type ? `${type}: ${errorMessage ?? ""}`.trim() : body;
+
+  return new ErrorClass(`${context}: ${res.status} ${detail}`.trim(), {
+    status: res.status,
+    type,
+    errorMessage,
+    requestId: res.headers.get("request-id"),
+    headers: res.headers,
+    body,
+  });
+}
+
+/**
+ * Typed error from an `error` event received mid-stream (HTTP status was already 200)
+ */
+export function errorFromStreamEvent(event: { error?: { type?: string; message?: string } }, headers?: Headers): APIError {
+  const type = event.error?.type;
+  const errorMessage = event.error?.message;
+  const ErrorClass = errorClassFor(undefined, type);
+
+  return new ErrorClass(`Stream error: ${type ?? "unknown"}: ${errorMessage ?? ""}`.trim(), {
+    type,
+    errorMessage,
+    requestId: headers?.get("request-id"),
+    headers,
+  });
+}
+
+/**
+ * Options rejected locally, before any request is sent (the API would reject them too)
+ */
+export class InvalidOptionsError extends ClaudeDirectError {}
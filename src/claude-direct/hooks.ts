@@ -0,0 +1,139 @@
+/**
+ * Lifecycle hooks for the tool loop
+ *
+ * Per turn:
+ *   beforeRequest   change the system prompt, messages or tools of this request
+ *   afterResponse   see each response as it arrives
+ *   preToolUse      block a call (as a denial) or rewrite its input; runs before the permission checks
+ *   postToolUse     change a call's result before the model sees it
+ *   onTurnEnd       after the turn's tool results (if any) are in the history
+ *   onStop          the model stopped without calling tools; return continueWith to keep going
+ *
+ * Hooks may be async and get the turn, usage so far and the loop's signal.
+ * Pass several sets as an array (or combine them with composeHooks): they run
+ * in order, each seeing the changes of the ones before it. The first
+ * preToolUse deny and the first onStop continuation win.
+ */
+
+import type { PermissionDecision } from "./permissions.js";
+import type { ToolDefinition } from "./tool-loop.js";
+import type { APIMessage, ContentBlock, Message, ToolResultBlock, ToolResultContent, ToolUseBlock } from "./types.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface HookUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+export interface HookContext {
+  /** Current turn (1-based) */
+  turn: number;
+  /** Totals of the loop's requests so far */
+  usage: HookUsage;
+  /** Aborts when the loop is cancelled or times out */
+  signal?: AbortSignal;
+}
+
+export interface HookRequest {
+  systemPrompt?: string;
+  /** Copy of the history: return a new array rather than mutating the messages */
+  messages: Message[];
+  /** As sent to the API; handlers still come from the loop options */
+  tools: ToolDefinition[];
+}
+
+export type HookResponse = Pick<APIMessage, "id" | "model" | "content" | "stop_reason" | "stop_sequence" | "usage">;
+
+export interface HookToolResult {
+  result: ToolResultContent;
+  isError: boolean;
+}
+
+export interface ToolLoopResume {
+  continueWith: string | ContentBlock[];
+}
+
+export interface ToolLoopHooks {
+  /** Returned fields replace the request's (this request only; the loop's history is unchanged) */
+  beforeRequest?: (request: HookRequest, context: HookContext) => MaybePromise<Partial<HookRequest> | void>;
+  afterResponse?: (response: HookResponse, context: HookContext) => MaybePromise<void>;
+  /** Deny to block the call, or allow with `input` to rewrite it */
+  preToolUse?: (toolUse: ToolUseBlock, context: HookContext) => MaybePromise<PermissionDecision | void>;
+  /** Not called for denied calls; `toolUse` carries the input the tool ran with */
+  postToolUse?: (
+    toolUse: ToolUseBlock,
+    result: HookToolResult,
+    context: HookContext
+  ) => MaybePromise<Partial<HookToolResult> | void>;
+  onTurnEnd?: (turn: { response: HookResponse; toolResults: ToolResultBlock[] }, context: HookContext) => MaybePromise<void>;
+  /** Return a user message to send instead of stopping (still bounded by maxTurns) */
+  onStop?: (response: HookResponse, context: HookContext) => MaybePromise<ToolLoopResume | void>;
+}
+
+/**
+ * Every hook present, returning the combined outcome of the composed sets
+ */
+export interface ComposedHooks extends ToolLoopHooks {
+  beforeRequest(request: HookRequest, context: HookContext): Promise<HookRequest>;
+  afterResponse(response: HookResponse, context: HookContext): Promise<void>;
+  preToolUse(toolUse: ToolUseBlock, context: HookContext): Promise<PermissionDecision | undefined>;
+  postToolUse(toolUse: ToolUseBlock, result: HookToolResult, context: HookContext): Promise<HookToolResult>;
+  onTurnEnd(turn: { response: HookResponse; toolResults: ToolResultBlock[] }, context: HookContext): Promise<void>;
+  onStop(response: HookResponse, context: HookContext): Promise<ToolLoopResume | undefined>;
+}
+
+/**
+ * One set of hooks running each of the given sets in order
+ */
+export function composeHooks(...list: ToolLoopHooks[]): ComposedHooks {
+  return {
+    async beforeRequest(request, context) {
+      let current = request;
+      for (const hooks of list) {
+        const changes = await hooks.beforeRequest?.(current, context);
+        if (changes) current = { ...current, ...changes };
+      }
+      return current;
+    },
+
+    async afterResponse(response, context) {
+      for (const hooks of list) await hooks.afterResponse?.(response, context);
+    },
+
+    async preToolUse(toolUse, context) {
+      let current = toolUse;
+      for (const hooks of list) {
+        const decision = await hooks.preToolUse?.(current, context);
+        if (!decision) continue;
+        if (decision.behavior === "deny") return decision;
+        if (decision.input) current = { ...current, input: decision.input };
+      }
+      return current === toolUse ? undefined : { behavior: "allow", input: current.input };
+    },
+
+    async postToolUse(toolUse, result, context) {
+      let current = result;
+      for (const hooks of list) {
+        const changes = await hooks.postToolUse?.(toolUse, current, context);
+        if (changes) current = { ...current, ...changes };
+      }
+      return current;
+    },
+
+    async onTurnEnd(turn, context) {
+      for (const hooks of list) await hooks.onTurnEnd?.(turn, context);
+    },
+
+    async onStop(response, context) {
+      for (const hooks of list) {
+        const resume = (await hooks.onStop?.(response, context)) || undefined;
+        if (resume) return resume;
+      }
+      return undefined;
+    },
+  };
+}
@@ -8,6 +8,102 @@
 
 import { randomUUID } from "crypto";
 import { createHash } from "crypto";
+import type { z } from "zod";
+import { ApiKeyAuth, OAuthBearerAuth, authFromEnv, type AuthProvider } from "./auth.js";
+import {
+  parseJsonLines,
+  toBatch,
+  toBatchResult,
+  validateBatchRequests,
+  type Batch,
+  type BatchPage,
+  type BatchRequest,
+  type BatchResult,
+  type ListBatchesOptions,
+  type PollBatchOptions,
+} from "./batches.js";
+import { applyCacheControl, type CacheSetting } from "./caching.js";
+import { Conversation, type ConversationOptions } from "./conversation.js";
+import { APIConnectionError, InvalidOptionsError, StreamInterruptedError, errorFromResponse } from "./errors.js";
+import {
+  isRetryableResponse,
+  resolveRetryPolicy,
+  retryDelayMs,
+  sleep,
+  type ResolvedRetryPolicy,
+  type RetryPolicy,
+} from "./retry.js";
+import { abortable, createRequestSignal } from "./signals.js";
+import { UsageTracker, costUsd, pricingFor, type ModelPricing } from "./pricing.js";
+import { RateLimiter, parseRateLimitHeaders, type RateLimitState, type RateLimiterOptions } from "./rate-limit.js";
+import { ResponseCache, messageEvents, responseCacheKey, type ResponseCacheOptions } from "./response-cache.js";
+import { SessionRecorder, rebuildHistory, type SessionStore } from "./session-store.js";
+import { MessageAccumulator, parseSSE, type StreamEvent } from "./streaming.js";
+import { queryStructured, type StructuredOptions, type StructuredResult } from "./structured.js";
+import { estimateRequestTokens } from "./tokens.js";
+import type {
+  APIMessage,
+  Citation,
+  ContentBlock,
+  Message,
+  RedactedThinkingBlock,
+  TextBlock,
+  ThinkingBlock,
+  ToolChoice,
+  ToolResultContent,
+  ToolUseBlock,
+  Usage,
+} from "./types.js";
+
+export { ApiKeyAuth, OAuthBearerAuth, authFromEnv } from "./auth.js";
+export type { AuthProvider, OAuthBearerOptions, RefreshedToken } from "./auth.js";
+export { BATCH_PRICE_FACTOR } from "./batches.js";
+export type {
+  Batch,
+  BatchPage,
+  BatchRequest,
+  BatchRequestCounts,
+  BatchResult,
+  BatchStatus,
+  ListBatchesOptions,
+  PollBatchOptions,
+} from "./batches.js";
+export type { CacheOptions, CacheSetting } from "./caching.js";
+export {
+  InvalidContentError,
+  MAX_DOCUMENT_BYTES,
+  MAX_DOCUMENT_PAGES,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGE_DIMENSION,
+  countPdfPages,
+  detectMediaType,
+  documentBlock,
+  imageBlock,
+  imageInfo,
+  textDocument,
+} from "./content.js";
+export type { ContentInput, DocumentOptions, ImageInfo, ImageMediaType, ImageOptions, ImageResizer } from "./content.js";
+export { keepFirstAndLast, summarizeOlder, truncateToolResults } from "./context.js";
+export type { Compaction, CompactionContext, CompactionStrategy, ContextOptions } from "./context.js";
+export { Conversation } from "./conversation.js";
+export type { ConversationOptions, ConversationTotals, SendOptions } from "./conversation.js";
+export { DEFAULT_PRICING, MODEL_ALIASES, UsageTracker, costUsd, pricingFor } from "./pricing.js";
+export type { ModelPricing, UsageFilter, UsageTotals } from "./pricing.js";
+export { RateLimiter, parseRateLimitHeaders } from "./rate-limit.js";
+export type { RateLimitState, RateLimitWindow, RateLimiterOptions } from "./rate-limit.js";
+export { FileResponseCache, MemoryResponseCache, responseCacheKey } from "./response-cache.js";
+export type { CachedResponse, ResponseCacheOptions, ResponseCacheStore } from "./response-cache.js";
+export type { RetryPolicy } from "./retry.js";
+export { JsonlSessionStore, MemorySessionStore, rebuildHistory } from "./session-store.js";
+export type { SessionEntry, SessionStore } from "./session-store.js";
+export * from "./errors.js";
+export { RequestAbortedError } from "./signals.js";
+export type { ContentDelta, StreamEvent } from "./streaming.js";
+export { TokenLimitError, checkTokenLimits, estimateRequestTokens, estimateTokens } from "./tokens.js";
+export type { PreflightOptions, TokenCountRequest, TokenCounter } from "./tokens.js";
+export { StructuredOutputError, schemaTool } from "./structured.js";
+export type { StructuredOptions, StructuredResult } from "./structured.js";
+export type * from "./types.js";
 
 // Types
 interface FeatureFlags {
@@ -19,7 +115,12 @@ interface FeatureFlags {
 }
 
 interface ClaudeDirectConfig {
-  oauthToken: string;
+  /** OAuth token (Claude Code CLI credentials) */
+  oauthToken?: string;
+  /** Standard API key (sent as x-api-key) */
+  apiKey?: string;
+  /** Custom auth provider (takes precedence over apiKey / oauthToken) */
+  auth?: AuthProvider;
   model?: string;
   deviceId?: string;
   sessionId?: string;
@@ -29,73 +130,359 @@ interface ClaudeDirectConfig {
   skipTelemetry?: boolean;
   /** Skip quota check */
   skipQuotaCheck?: boolean;
+  /** API origin for Anthropic endpoints (default: https://api.anthropic.com) */
+  baseUrl?: string;
+  /** Transport used for every request (default: global fetch, resolved per call) */
+  fetch?: FetchLike;
+  /** Per-endpoint URL and transport overrides */
+  endpoints?: Partial<Record<EndpointName, EndpointOverride>>;
+  /** Retry policy for 429/529/5xx and connection errors (false disables retries) */
+  retry?: RetryPolicy | false;
+  /** Record requests, responses and tool calls under sessionId (see resumeSession) */
+  sessionStore?: SessionStore;
+  /** Prices per model ID or alias, merged over DEFAULT_PRICING */
+  pricing?: Record<string, ModelPricing>;
+  /** Queue requests to stay under these per-minute limits (and wait out briefly exhausted server windows) */
+  rateLimit?: RateLimiterOptions;
+  /** Answer repeated identical requests from a cache (opt-in, for deterministic prompts) */
+  responseCache?: ResponseCacheOptions;
 }
 
-interface Message {
-  role: "user" | "assistant";
-  content: string | ContentBlock[];
-}
+/**
+ * Minimal fetch signature the client depends on.
+ * Anything with this shape works: a proxy-aware fetch, an in-process fake, a logging wrapper.
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Named endpoints that can be redirected individually */
+export type EndpointName = "messages" | "countTokens" | "batches" | "featureFlags" | "telemetry" | "datadog";
 
-interface ContentBlock {
-  type: "text" | "image";
-  text?: string;
-  source?: { type: string; media_type: string; data: string };
+export interface EndpointOverride {
+  /** Full URL for this endpoint (replaces baseUrl + default path) */
+  url?: string;
+  /** Transport for this endpoint only (falls back to config.fetch) */
+  fetch?: FetchLike;
 }
 
-interface QueryOptions {
+export interface QueryOptions {
   messages: Message[];
   systemPrompt?: string;
   maxTokens?: number;
   stream?: boolean;
   tools?: any[];
+  /** Force or forbid tool use (only "auto" / "none" with thinking) */
+  toolChoice?: ToolChoice;
+  /** Sampling temperature (must be unset or 1 with thinking) */
+  temperature?: number;
+  /** Extended thinking; budget must be >= 1024 and below maxTokens */
+  thinking?: ThinkingOptions;
+  /** Prompt cache breakpoints: "auto" (tools, system, last user turn) or explicit placement */
+  cacheControl?: CacheSetting;
+  /** Abort the request (rejects with RequestAbortedError) */
+  signal?: AbortSignal;
+  /** Abort if the whole call, including streaming, takes longer (rejects with APITimeoutError) */
+  timeoutMs?: number;
+  /** Usage counter tags (see client.usage) */
+  tags?: string[];
+  /** Skip the response cache for this request (neither read nor written) */
+  bypassCache?: boolean;
+  /** Session to bill and record this request under (default: the client's sessionId) */
+  sessionId?: string;
+  /** Keep this request and its response out of the session store (side requests such as summaries) */
+  skipSession?: boolean;
+}
+
+export interface ThinkingOptions {
+  /**
+   * Max tokens the model may spend thinking. With interleaved thinking (always
+   * on) it covers every thinking block of a turn, so it may exceed maxTokens
+   */
+  budgetTokens: number;
 }
 
-interface QueryResult {
+export interface QueryResult {
+  /** Text of every text block, concatenated */
   content: string;
+  /** Every content block of the response: text (with citations), thinking, tool_use... */
+  contentBlocks: ContentBlock[];
+  /** Thinking text, when thinking is enabled ("" otherwise) */
+  thinking: string;
+  /** Message ID (msg_...) */
+  id: string;
   inputTokens: number;
   outputTokens: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreationInputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadInputTokens: number;
+  /** Usage object as returned by the API */
+  usage: Usage;
+  /** Cost of this request at the model's pricing (0 for unknown models) */
+  costUsd: number;
   model: string;
   stopReason: string;
+  /** The stop sequence that ended the response, when stopReason is "stop_sequence" */
+  stopSequence: string | null;
+  /** HTTP attempts made (1 = no retries) */
+  attempts: number;
+  /** Time spent sleeping between retries (excluded from model time) */
+  retryWaitMs: number;
+  /** Rate-limit headers of the response (undefined if it had none) */
+  rateLimit?: RateLimitState;
+  /** Answered from the response cache (no request sent, costUsd is 0) */
+  cached: boolean;
+}
+
+/**
+ * Return value of streamEvents
+ */
+export interface StreamResult {
+  /** Final message with every content block, usage and stop_reason */
+  message: APIMessage;
+  costUsd: number;
+  attempts: number;
+  retryWaitMs: number;
+  rateLimit?: RateLimitState;
+  /** Replayed from the response cache */
+  cached: boolean;
 }
 
 // Constants
-const API_BASE = "https://api.anthropic.com";
+const DEFAULT_MAX_TOKENS = 4096;
+// How long rate-limit headers from a response answer checkQuota without a probe request
+const QUOTA_STATE_MAX_AGE_MS = 60 * 1000;
+const MIN_THINKING_BUDGET = 1024;
+const DEFAULT_API_BASE = "https://api.anthropic.com";
 const ANTHROPIC_VERSION = "2023-06-01";
 const CLI_VERSION = "2.1.29";
 const SDK_VERSION = "0.2.29";
 const EVAL_SDK_KEY = "sdk-zAZezfDKGoZuXXKe";
 
-// Beta flags that enable OAuth
+// Beta flags sent on every request (auth-specific betas like oauth are added by the provider)
+// Lets thinking continue between tool calls; the thinking budget then spans the turn
+const INTERLEAVED_THINKING_BETA = "interleaved-thinking-2025-05-14";
+
 const BETA_FLAGS = [
-  "oauth-2025-04-20",
-  "interleaved-thinking-2025-05-14",
+  INTERLEAVED_THINKING_BETA,
   "context-management-2025-06-27",
   "prompt-caching-scope-2026-01-05",
-].join(",");
+];
 
 // Telemetry endpoints (only used in full mode)
 const DATADOG_ENDPOINT = "https://http-intake.logs.us5.datadoghq.com/api/v2/logs";
 const DATADOG_API_KEY = "pubbbf48e6d78dae54bceaa4acf463299bf";
 
+// Default paths, relative to baseUrl unless absolute
+const ENDPOINT_PATHS: Record<EndpointName, string> = {
+  messages: "/v1/messages",
+  countTokens: "/v1/messages/count_tokens",
+  batches: "/v1/messages/batches",
+  featureFlags: `/api/eval/${EVAL_SDK_KEY}`,
+  telemetry: "/api/event_logging/batch",
+  datadog: DATADOG_ENDPOINT,
+};
+
+// Endpoints the CLI calls with ?beta=true
+const BETA_QUERY_ENDPOINTS = new Set<EndpointName>(["messages", "countTokens"]);
+
+// Resolve global fetch per call so fetch interceptors installed later still apply
+const defaultFetch: FetchLike = (url, init) => globalThis.fetch(url, init);
+
 export class ClaudeDirect {
-  private config: Required<Omit<ClaudeDirectConfig, 'minimal' | 'skipTelemetry' | 'skipQuotaCheck'>> & {
+  private config: Required<Omit<ClaudeDirectConfig, 'oauthToken' | 'apiKey' | 'auth' | 'minimal' | 'skipTelemetry' | 'skipQuotaCheck' | 'endpoints' | 'retry' | 'sessionStore' | 'pricing' | 'rateLimit' | 'responseCache'>> & {
     minimal: boolean;
     skipTelemetry: boolean;
     skipQuotaCheck: boolean;
+    endpoints: Partial<Record<EndpointName, EndpointOverride>>;
+    retry: ResolvedRetryPolicy;
   };
   private featureFlags: FeatureFlags | null = null;
   private featureFlagsExpiry: number = 0;
+  private auth: AuthProvider;
+  private sessionStore?: SessionStore;
+  // Recorders by session ID, created on first use
+  private sessions = new Map<string, SessionRecorder>();
+  private pricing: Record<string, ModelPricing>;
+  private limiter?: RateLimiter;
+  private lastRateLimit?: RateLimitState;
+  private responseCache?: ResponseCache;
+
+  /** Cumulative usage and cost of this client, by session and tag */
+  readonly usage = new UsageTracker();
 
   constructor(config: ClaudeDirectConfig) {
+    if (config.auth) {
+      this.auth = config.auth;
+    } else if (config.apiKey) {
+      this.auth = new ApiKeyAuth(config.apiKey);
+    } else if (config.oauthToken) {
+      this.auth = new OAuthBearerAuth(config.oauthToken);
+    } else {
+      throw new Error("Missing credentials: provide auth, apiKey or oauthToken");
+    }
+
     this.config = {
-      oauthToken: config.oauthToken,
       model: config.model || "claude-haiku-4-5-20251001",
       deviceId: config.deviceId || this.generateDeviceId(),
       sessionId: config.sessionId || randomUUID(),
       minimal: config.minimal ?? true, // Default to minimal (fastest)
       skipTelemetry: config.skipTelemetry ?? config.minimal ?? true,
       skipQuotaCheck: config.skipQuotaCheck ?? true,
+      baseUrl: (config.baseUrl || process.env.ANTHROPIC_BASE_URL || DEFAULT_API_BASE).replace(/\/+$/, ""),
+      fetch: config.fetch || defaultFetch,
+      endpoints: config.endpoints || {},
+      retry: resolveRetryPolicy(config.retry),
     };
+    this.pricing = config.pricing || {};
+    if (config.rateLimit) {
+      this.limiter = new RateLimiter(config.rateLimit);
+    }
+    if (config.responseCache) {
+      this.responseCache = new ResponseCache(config.responseCache);
+    }
+
+    this.sessionStore = config.sessionStore;
+  }
+
+  /**
+   * Session ID sent in metadata.user_id (and used for the session store)
+   */
+  get sessionId(): string {
+    return this.config.sessionId;
+  }
+
+  /**
+   * Rate-limit state from the most recent response that carried it
+   */
+  get rateLimit(): RateLimitState | undefined {
+    return this.lastRateLimit;
+  }
+
+  /**
+   * Resolve the URL for an endpoint, honoring per-endpoint overrides
+   */
+  private endpointUrl(endpoint: EndpointName, subpath: string = ""): string {
+    const override = this.config.endpoints[endpoint]?.url;
+    const path = ENDPOINT_PATHS[endpoint];
+    const base = override || (/^https?:\/\//.test(path) ? path : `${this.config.baseUrl}${path}`);
+    const query = BETA_QUERY_ENDPOINTS.has(endpoint) && !override ? "?beta=true" : "";
+    return `${base.replace(/\/+$/, "")}${subpath}${query}`;
+  }
+
+  /**
+   * Send a request to a named endpoint through the configured transport
+   */
+  private request(endpoint: EndpointName, init: RequestInit, subpath?: string): Promise<Response> {
+    const transport = this.config.endpoints[endpoint]?.fetch || this.config.fetch;
+    return transport(this.endpointUrl(endpoint, subpath), init);
+  }
+
+  /**
+   * Send an authenticated request. On 401, lets the auth provider refresh
+   * and retries once.
+   */
+  private async authedRequest(
+    endpoint: EndpointName,
+    init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> },
+    subpath?: string
+  ): Promise<Response> {
+    // Only the transport's own failures are connection errors; auth provider
+    // errors (getHeaders, refresh) propagate as thrown
+    const transport = async (headers: Record<string, string>) => {
+      try {
+        return await this.request(endpoint, { ...init, headers }, subpath);
+      } catch (err: any) {
+        throw new APIConnectionError(`Connection failed: ${err.message}`, { cause: err });
+      }
+    };
+    const send = async () => abortable(transport({ ...(await this.getHeaders()), ...init.headers }), init.signal ?? undefined);
+
+    const res = await send();
+    if (res.status === 401 && this.auth.refresh && (await this.auth.refresh())) {
+      await res.body?.cancel();
+      return send();
+    }
+    return res;
+  }
+
+  /**
+   * Authenticated request with the client's retry policy applied.
+   * Covers everything up to the response headers; a stream that fails
+   * after that is not replayed.
+   */
+  private async sendWithRetry(
+    endpoint: EndpointName,
+    init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> },
+    subpath?: string,
+    policy: ResolvedRetryPolicy = this.config.retry
+  ): Promise<{ res: Response; attempts: number; retryWaitMs: number; rateLimit?: RateLimitState }> {
+    let attempts = 0;
+    let retryWaitMs = 0;
+
+    while (true) {
+      attempts++;
+      let res: Response;
+
+      try {
+        res = await this.authedRequest(endpoint, init, subpath);
+      } catch (err) {
+        // Cancellation is final, never retried or reported as a connection failure
+        if (init.signal?.aborted) throw init.signal.reason;
+        // Only connection failures are retried, not a failing auth provider
+        if (!(err instanceof APIConnectionError) || !policy.retryOnConnectionError || attempts >= policy.maxAttempts) {
+          throw err;
+        }
+        const delayMs = retryDelayMs(attempts, undefined, policy)!;
+        policy.onRetry?.({ attempt: attempts, delayMs, error: err });
+        await sleep(delayMs, init.signal);
+        retryWaitMs += delayMs;
+        continue;
+      }
+
+      // 429s carry rate-limit headers too, so the limiter learns from failed attempts
+      const rateLimit = this.observeRateLimit(res.headers);
+
+      if (res.ok || attempts >= policy.maxAttempts || !isRetryableResponse(res, policy)) {
+        return { res, attempts, retryWaitMs, rateLimit };
+      }
+
+      const delayMs = retryDelayMs(attempts, res.headers, policy);
+      if (delayMs === null) {
+        // Server wants a longer wait than we allow, surface the failure now
+        return { res, attempts, retryWaitMs, rateLimit };
+      }
+
+      await res.body?.cancel();
+      policy.onRetry?.({ attempt: attempts, delayMs, status: res.status });
+      await sleep(delayMs, init.signal);
+      retryWaitMs += delayMs;
+    }
+  }
+
+  /**
+   * Parse a response's rate-limit headers, remember them and pass them to the limiter
+   */
+  private observeRateLimit(headers: Headers): RateLimitState | undefined {
+    const state = parseRateLimitHeaders(headers);
+    if (state) {
+      this.lastRateLimit = state;
+      this.limiter?.observe(state);
+    }
+    return state;
+  }
+
+  /**
+   * Wait for the rate limiter (no-op without one). settle() records real usage.
+   */
+  private async acquireSlot(options: QueryOptions, signal?: AbortSignal) {
+    return this.limiter?.acquire(estimateRequestTokens(options), signal);
+  }
+
+  /**
+   * Response cache key for a request body (undefined when the cache is off or bypassed)
+   */
+  private cacheKey(body: Record<string, any>, options: QueryOptions): string | undefined {
+    return this.responseCache && !options.bypassCache ? responseCacheKey(body) : undefined;
   }
 
   private generateDeviceId(): string {
@@ -103,29 +490,87 @@ export class ClaudeDirect {
     return createHash("sha256").update(data).digest("hex");
   }
 
-  private estimateCost(usage: { input_tokens: number; output_tokens: number }): number {
-    // Haiku pricing per 1M tokens
-    const inputCostPer1M = 0.25;
-    const outputCostPer1M = 1.25;
-    return (
-      (usage.input_tokens / 1_000_000) * inputCostPer1M +
-      (usage.output_tokens / 1_000_000) * outputCostPer1M
-    );
+  /**
+   * USD cost of a request's token usage (cache writes and reads included)
+   */
+  estimateCost(usage: Partial<Usage>, model: string = this.config.model): number {
+    return costUsd(usage, pricingFor(model, this.pricing));
+  }
+
+  /**
+   * Price a response and add it to the usage counters. Returns the cost.
+   */
+  private account(response: { usage?: Partial<Usage>; model?: string }, options: QueryOptions): number {
+    const usage = response.usage || {};
+    const cost = this.estimateCost(usage, response.model || this.config.model);
+    this.usage.record(usage, cost, { sessionId: options.sessionId ?? this.config.sessionId, tags: options.tags });
+    return cost;
   }
 
-  private getHeaders(): Record<string, string> {
+  private async getHeaders(): Promise<Record<string, string>> {
     return {
       "Content-Type": "application/json",
       "Accept": "application/json",
-      "Authorization": `Bearer ${this.config.oauthToken}`,
+      ...(await this.auth.getHeaders()),
       "anthropic-version": ANTHROPIC_VERSION,
-      "anthropic-beta": BETA_FLAGS,
+      "anthropic-beta": [...(this.auth.betas || []), ...BETA_FLAGS].join(","),
       "anthropic-dangerous-direct-browser-access": "true",
       "x-app": "cli",
       "User-Agent": `claude-cli/${CLI_VERSION} (external, cli, agent-sdk/${SDK_VERSION})`,
     };
   }
 
+  /**
+   * Build the /v1/messages request body shared by every inference path
+   */
+  private buildBody(options: QueryOptions): Record<string, any> {
+    const maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+    const body: Record<string, any> = {
+      model: this.config.model,
+      max_tokens: maxTokens,
+      messages: options.messages,
+      metadata: {
+        user_id: `user_${this.config.deviceId}_session_${options.sessionId ?? this.config.sessionId}`,
+      },
+    };
+
+    if (options.systemPrompt) {
+      body.system = options.systemPrompt;
+    }
+
+    if (options.tools && options.tools.length > 0) {
+      body.tools = options.tools;
+    }
+
+    if (options.toolChoice) {
+      body.tool_choice = options.toolChoice;
+    }
+
+    if (options.temperature !== undefined) {
+      body.temperature = options.temperature;
+    }
+
+    if (options.thinking) {
+      const { budgetTokens } = options.thinking;
+      if (budgetTokens < MIN_THINKING_BUDGET) {
+        throw new InvalidOptionsError(`thinking.budgetTokens must be at least ${MIN_THINKING_BUDGET} (got ${budgetTokens})`);
+      }
+      // Only without interleaved thinking must the budget fit in max_tokens
+      if (!BETA_FLAGS.includes(INTERLEAVED_THINKING_BETA) && budgetTokens >= maxTokens) {
+        throw new InvalidOptionsError(`thinking.budgetTokens (${budgetTokens}) must be less than maxTokens (${maxTokens})`);
+      }
+      if (options.temperature !== undefined && options.temperature !== 1) {
+        throw new InvalidOptionsError("temperature cannot be changed when thinking is enabled (leave it unset or 1)");
+      }
+      if (options.toolChoice && options.toolChoice.type !== "auto" && options.toolChoice.type !== "none") {
+        throw new InvalidOptionsError(`toolChoice "${options.toolChoice.type}" cannot be used with thinking (use "auto")`);
+      }
+      body.thinking = { type: "enabled", budget_tokens: budgetTokens };
+    }
+
+    return options.cacheControl ? applyCacheControl(body, options.cacheControl) : body;
+  }
+
   /**
    * Fetch feature flags (only in full mode, cached for 5 min)
    */
@@ -138,9 +583,8 @@ export class ClaudeDirect {
       return this.featureFlags;
     }
 
-    const res = await fetch(`${API_BASE}/api/eval/${EVAL_SDK_KEY}`, {
+    const res = await this.authedRequest("featureFlags", {
       method: "POST",
-      headers: this.getHeaders(),
       body: JSON.stringify({
         attributes: {
           id: this.config.deviceId,
@@ -170,16 +614,22 @@ export class ClaudeDirect {
   }
 
   /**
-   * Quota check (optional, gets rate limit info)
+   * Quota check (optional, gets rate limit info).
+   * Answered from the last response's headers when they are recent; otherwise
+   * spends a 1-token request to read them.
    */
   async checkQuota(): Promise<{ allowed: boolean; utilization: number }> {
     if (this.config.skipQuotaCheck) {
       return { allowed: true, utilization: 0 };
     }
 
-    const res = await fetch(`${API_BASE}/v1/messages?beta=true`, {
+    const cached = this.lastRateLimit;
+    if (cached?.status !== undefined && Date.now() - cached.observedAt < QUOTA_STATE_MAX_AGE_MS) {
+      return { allowed: cached.status === "allowed", utilization: cached.utilization ?? 0 };
+    }
+
+    const res = await this.authedRequest("messages", {
       method: "POST",
-      headers: this.getHeaders(),
       body: JSON.stringify({
         model: this.config.model,
         max_tokens: 1,
@@ -190,14 +640,12 @@ export class ClaudeDirect {
       }),
     });
 
-    const utilization = parseFloat(
-      res.headers.get("anthropic-ratelimit-unified-5h-utilization") || "0"
-    );
-    const status = res.headers.get("anthropic-ratelimit-unified-status");
+    await res.body?.cancel();
+    const state = this.observeRateLimit(res.headers);
 
     return {
-      allowed: status === "allowed",
-      utilization,
+      allowed: state?.status === "allowed",
+      utilization: state?.utilization ?? 0,
     };
   }
 
@@ -218,52 +666,22 @@ export class ClaudeDirect {
     }
 
     // Build request body
-    const body: any = {
-      model: this.config.model,
-      max_tokens: options.maxTokens || 4096,
-      messages: options.messages,
-      metadata: {
-        user_id: `user_${this.config.deviceId}_session_${this.config.sessionId}`,
-      },
-    };
-
-    if (options.systemPrompt) {
-      body.system = options.systemPrompt;
-    }
-
-    if (options.tools && options.tools.length > 0) {
-      body.tools = options.tools;
-    }
+    const body = this.buildBody(options);
 
     if (options.stream) {
       body.stream = true;
     }
 
-    // Make the inference call
-    const res = await fetch(`${API_BASE}/v1/messages?beta=true`, {
-      method: "POST",
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
-
-    if (!res.ok) {
-      const error = await res.text();
-      throw new Error(`Inference failed: ${res.status} ${error}`);
-    }
+    await this.recordRequest(options);
 
-    const data = await res.json();
+    // Make the inference call
+    const { data, costUsd, attempts, retryWaitMs, rateLimit, cached } = await this.sendMessage(body, options);
     const duration = Date.now() - startTime;
 
-    const result: QueryResult = {
-      content: data.content?.[0]?.text || "",
-      inputTokens: data.usage?.input_tokens || 0,
-      outputTokens: data.usage?.output_tokens || 0,
-      model: data.model,
-      stopReason: data.stop_reason,
-    };
+    const result = toQueryResult(data, { costUsd, attempts, retryWaitMs, rateLimit, cached });
 
     // Telemetry (async, non-blocking, skipped in minimal mode)
-    if (!this.config.skipTelemetry) {
+    if (!this.config.skipTelemetry && !cached) {
       this.sendTelemetry(duration, {
         input_tokens: result.inputTokens,
         output_tokens: result.outputTokens,
@@ -277,10 +695,17 @@ export class ClaudeDirect {
    * Raw inference call - returns full API response for tool loop
    */
   async queryRaw(options: QueryOptions & { tools?: any[] }): Promise<{
-    content: any[];
+    id: string;
+    content: ContentBlock[];
     stop_reason: string;
-    usage: { input_tokens: number; output_tokens: number };
+    stop_sequence: string | null;
+    usage: Usage;
     model: string;
+    costUsd: number;
+    attempts: number;
+    retryWaitMs: number;
+    rateLimit?: RateLimitState;
+    cached: boolean;
   }> {
     // Feature flags (skipped in minimal mode)
     if (!this.config.minimal) {
@@ -288,142 +713,455 @@ export class ClaudeDirect {
     }
 
     // Build request body
-    const body: any = {
-      model: this.config.model,
-      max_tokens: options.maxTokens || 4096,
-      messages: options.messages,
-      metadata: {
-        user_id: `user_${this.config.deviceId}_session_${this.config.sessionId}`,
-      },
+    const body = this.buildBody(options);
+    await this.recordRequest(options);
+
+    // Make the inference call
+    const { data, ...meta } = await this.sendMessage(body, options);
+
+    return {
+      id: data.id,
+      content: data.content || [],
+      stop_reason: data.stop_reason,
+      stop_sequence: data.stop_sequence ?? null,
+      usage: data.usage || { input_tokens: 0, output_tokens: 0 },
+      model: data.model,
+      ...meta,
     };
+  }
 
-    if (options.systemPrompt) {
-      body.system = options.systemPrompt;
+  /**
+   * Send a non-streaming /v1/messages request, or answer it from the response
+   * cache. Records the response in the session and prices it.
+   */
+  private async sendMessage(
+    body: Record<string, any>,
+    options: QueryOptions
+  ): Promise<{
+    data: any;
+    costUsd: number;
+    attempts: number;
+    retryWaitMs: number;
+    rateLimit?: RateLimitState;
+    cached: boolean;
+  }> {
+    const cacheKey = this.cacheKey(body, options);
+    const hit = cacheKey ? await this.responseCache!.get(cacheKey) : undefined;
+    if (hit) {
+      await this.recorder(options)?.recordResponse(hit.message);
+      return { data: hit.message, costUsd: 0, attempts: 0, retryWaitMs: 0, cached: true };
     }
 
-    if (options.tools && options.tools.length > 0) {
-      body.tools = options.tools;
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs);
+    let attempts: number, retryWaitMs: number, rateLimit: RateLimitState | undefined, data: any;
+    try {
+      const slot = await this.acquireSlot(options, requestSignal?.signal);
+      let res: Response;
+      ({ res, attempts, retryWaitMs, rateLimit } = await this.sendWithRetry("messages", {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal: requestSignal?.signal,
+      }));
+
+      if (!res.ok) {
+        throw await errorFromResponse(res);
+      }
+
+      data = await abortable(res.json(), requestSignal?.signal);
+      slot?.settle(data.usage || {});
+    } finally {
+      requestSignal?.cleanup();
     }
+    await this.recorder(options)?.recordResponse(data);
+    if (cacheKey) await this.responseCache!.set(cacheKey, data);
 
-    // Make the inference call
-    const res = await fetch(`${API_BASE}/v1/messages?beta=true`, {
-      method: "POST",
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
+    return { data, costUsd: this.account(data, options), attempts, retryWaitMs, rateLimit, cached: false };
+  }
+
+  /**
+   * Exact input token count for a request, from the count_tokens endpoint.
+   * Takes the same options as query (system, tools, images, thinking are all counted).
+   * Bound to the client, so it can be passed as a TokenCounter as is.
+   */
+  readonly countTokens = async (options: QueryOptions): Promise<number> => {
+    const { max_tokens, metadata, temperature, ...body } = this.buildBody(options);
+
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs);
+    try {
+      const { res } = await this.sendWithRetry("countTokens", {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal: requestSignal?.signal,
+      });
+
+      if (!res.ok) {
+        throw await errorFromResponse(res, "Token count failed");
+      }
+
+      const data = await abortable(res.json(), requestSignal?.signal);
+      return data.input_tokens;
+    } finally {
+      requestSignal?.cleanup();
+    }
+  };
+
+  /**
+   * Submit requests as a message batch, processed asynchronously at half price.
+   * Each request takes the same options as query plus a unique customId.
+   * Sent once, never retried: a create that failed after reaching the server
+   * may still have made the batch, and a retry would submit it twice.
+   */
+  async createBatch(requests: BatchRequest[], options?: { signal?: AbortSignal }): Promise<Batch> {
+    validateBatchRequests(requests);
+    const body = {
+      requests: requests.map(({ customId, ...params }) => ({ custom_id: customId, params: this.buildBody(params) })),
+    };
+    const once = { ...this.config.retry, maxAttempts: 1 };
+    return toBatch(await this.batchRequest("POST", "", "Batch creation failed", body, options?.signal, once));
+  }
+
+  async getBatch(id: string, options?: { signal?: AbortSignal }): Promise<Batch> {
+    return toBatch(await this.batchRequest("GET", `/${encodeURIComponent(id)}`, "Batch lookup failed", undefined, options?.signal));
+  }
+
+  /**
+   * Check a batch's status until it has ended, waiting longer between checks each time
+   */
+  async pollBatch(id: string, options: PollBatchOptions = {}): Promise<Batch> {
+    const { intervalMs = 5000, maxIntervalMs = 60_000 } = options;
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs);
+    const signal = requestSignal?.signal;
+
+    try {
+      let delayMs = intervalMs;
+      while (true) {
+        const batch = await this.getBatch(id, { signal });
+        options.onProgress?.(batch);
+        if (batch.status === "ended") return batch;
+
+        await sleep(delayMs, signal);
+        delayMs = Math.min(delayMs * 1.5, maxIntervalMs);
+      }
+    } finally {
+      requestSignal?.cleanup();
+    }
+  }
 
+  /**
+   * Results of an ended batch, streamed line by line (in any order; match them by customId)
+   */
+  async *batchResults(id: string, options?: { signal?: AbortSignal }): AsyncGenerator<BatchResult, void, unknown> {
+    const signal = options?.signal;
+    const { res } = await this.sendWithRetry("batches", { method: "GET", signal }, `/${encodeURIComponent(id)}/results`);
     if (!res.ok) {
-      const error = await res.text();
-      throw new Error(`Inference failed: ${res.status} ${error}`);
+      throw await errorFromResponse(res, "Batch results failed");
     }
 
-    const data = await res.json();
+    const reader = res.body?.getReader();
+    if (!reader) return;
+
+    const chunks = async function* () {
+      while (true) {
+        const chunk = await abortable(reader.read(), signal);
+        if (chunk.done) return;
+        yield chunk.value;
+      }
+    };
+
+    try {
+      for await (const line of parseJsonLines(chunks())) {
+        yield toBatchResult(line, (message) => this.estimateCost(message.usage, message.model));
+      }
+    } finally {
+      await reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Stop a batch; requests not yet processed end as "canceled"
+   */
+  async cancelBatch(id: string, options?: { signal?: AbortSignal }): Promise<Batch> {
+    return toBatch(await this.batchRequest("POST", `/${encodeURIComponent(id)}/cancel`, "Batch cancel failed", undefined, options?.signal));
+  }
 
+  /**
+   * One page of this account's batches, newest first
+   */
+  async listBatches(options: ListBatchesOptions = {}): Promise<BatchPage> {
+    const params = new URLSearchParams();
+    if (options.limit !== undefined) params.set("limit", String(options.limit));
+    if (options.afterId) params.set("after_id", options.afterId);
+    if (options.beforeId) params.set("before_id", options.beforeId);
+    const query = params.size ? `?${params}` : "";
+
+    const data = await this.batchRequest("GET", query, "Batch list failed");
     return {
-      content: data.content || [],
-      stop_reason: data.stop_reason,
-      usage: data.usage || { input_tokens: 0, output_tokens: 0 },
-      model: data.model,
+      batches: (data.data || []).map(toBatch),
+      hasMore: Boolean(data.has_more),
+      firstId: data.first_id ?? null,
+      lastId: data.last_id ?? null,
     };
   }
 
+  private async batchRequest(
+    method: "GET" | "POST",
+    subpath: string,
+    failure: string,
+    body?: Record<string, any>,
+    signal?: AbortSignal,
+    policy?: ResolvedRetryPolicy
+  ): Promise<any> {
+    const { res } = await this.sendWithRetry(
+      "batches",
+      { method, body: body ? JSON.stringify(body) : undefined, signal },
+      subpath,
+      policy
+    );
+    if (!res.ok) {
+      throw await errorFromResponse(res, failure);
+    }
+    return abortable(res.json(), signal);
+  }
+
   /**
-   * Streaming inference
+   * Inference with the answer parsed and validated against a zod schema.
+   * Throws StructuredOutputError (with the raw answer) if it never validates.
    */
-  async *queryStream(options: QueryOptions): AsyncGenerator<string, QueryResult, unknown> {
-    const startTime = Date.now();
+  async queryStructured<T extends z.ZodType>(options: StructuredOptions<T>): Promise<StructuredResult<z.output<T>>> {
+    return queryStructured(this, options);
+  }
 
-    // Feature flags (skipped in minimal mode)
-    if (!this.config.minimal) {
-      await this.fetchFeatureFlags();
+  /**
+   * Start a multi-turn conversation that keeps its own history
+   */
+  conversation(options?: ConversationOptions): Conversation {
+    return new Conversation(this, options);
+  }
+
+  /**
+   * Continue a stored session: the returned conversation starts from the
+   * recorded history and records under that session ID (the client's own
+   * sessionId is unchanged). The recorded system prompt is used unless
+   * options override it.
+   */
+  async resumeSession(sessionId: string, options?: ConversationOptions): Promise<Conversation> {
+    if (!this.sessionStore) {
+      throw new InvalidOptionsError("resumeSession requires a sessionStore in the client config");
     }
 
-    // Build request
-    const body: any = {
-      model: this.config.model,
-      max_tokens: options.maxTokens || 4096,
-      messages: options.messages,
-      stream: true,
-      metadata: {
-        user_id: `user_${this.config.deviceId}_session_${this.config.sessionId}`,
-      },
-    };
+    const entries = await this.sessionStore.load(sessionId);
+    if (entries.length === 0) {
+      throw new InvalidOptionsError(`Unknown session: ${sessionId}`);
+    }
 
-    if (options.systemPrompt) {
-      body.system = options.systemPrompt;
+    const { messages, systemPrompt } = rebuildHistory(entries);
+    this.sessions.set(sessionId, new SessionRecorder(this.sessionStore, sessionId, messages));
+
+    return new Conversation(this, {
+      ...options,
+      systemPrompt: options?.systemPrompt ?? systemPrompt,
+      messages,
+      sessionId,
+    });
+  }
+
+  /**
+   * Record a tool call in the session store (no-op without one)
+   */
+  async recordToolCall(
+    call: {
+      toolUseId: string;
+      name: string;
+      input: Record<string, any>;
+      result: ToolResultContent;
+      isError: boolean;
+    },
+    sessionId?: string
+  ): Promise<void> {
+    await this.recorder({ sessionId })?.recordToolCall(call);
+  }
+
+  private recorder(options: { sessionId?: string; skipSession?: boolean }): SessionRecorder | undefined {
+    if (!this.sessionStore || options.skipSession) return undefined;
+
+    const sessionId = options.sessionId ?? this.config.sessionId;
+    let recorder = this.sessions.get(sessionId);
+    if (!recorder) {
+      recorder = new SessionRecorder(this.sessionStore, sessionId);
+      this.sessions.set(sessionId, recorder);
     }
+    return recorder;
+  }
 
-    const res = await fetch(`${API_BASE}/v1/messages?beta=true`, {
-      method: "POST",
-      headers: {
-        ...this.getHeaders(),
-        "Accept": "text/event-stream",
-      },
-      body: JSON.stringify(body),
+  private async recordRequest(options: QueryOptions): Promise<void> {
+    await this.recorder(options)?.recordRequest({
+      model: this.config.model,
+      systemPrompt: options.systemPrompt,
+      messages: options.messages,
     });
+  }
 
-    if (!res.ok) {
-      const error = await res.text();
-      throw new Error(`Inference failed: ${res.status} ${error}`);
+  /**
+   * Streaming inference - typed events
+   *
+   * Yields every API event (text, tool input JSON, thinking and signature
+   * deltas, pings). `content_block_stop` carries the assembled block and
+   * `message_stop` the final message; the same final message is the
+   * generator's return value. Mid-stream `error` events are thrown as typed errors.
+   */
+  async *streamEvents(options: QueryOptions): AsyncGenerator<StreamEvent, StreamResult, unknown> {
+    const startTime = Date.now();
+
+    // Feature flags (skipped in minimal mode)
+    if (!this.config.minimal) {
+      await this.fetchFeatureFlags();
     }
 
-    const reader = res.body?.getReader();
-    if (!reader) throw new Error("No response body");
+    const body = { ...this.buildBody(options), stream: true };
+    await this.recordRequest(options);
 
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let content = "";
-    let inputTokens = 0;
-    let outputTokens = 0;
-    let model = this.config.model;
-    let stopReason = "";
+    const cacheKey = this.cacheKey(body, options);
+    const hit = cacheKey ? await this.responseCache!.get(cacheKey) : undefined;
+    if (hit) {
+      const replay = new MessageAccumulator();
+      for (const raw of hit.events || messageEvents(hit.message)) {
+        const event = replay.apply(raw);
+        if (event) yield event;
+      }
+      await this.recorder(options)?.recordResponse(replay.message);
+      return { message: replay.message, costUsd: 0, attempts: 0, retryWaitMs: 0, cached: true };
+    }
+    // Raw events as received, kept for the cache
+    const events: any[] | undefined = cacheKey ? [] : undefined;
+
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs);
+    const signal = requestSignal?.signal;
+
+    let attempts = 0;
+    let retryWaitMs = 0;
+    let rateLimit: RateLimitState | undefined;
+    let message: APIMessage;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    const cancelReader = () => reader?.cancel(signal?.reason).catch(() => {});
+
+    try {
+      const slot = await this.acquireSlot(options, signal);
+      let res: Response;
+      ({ res, attempts, retryWaitMs, rateLimit } = await this.sendWithRetry("messages", {
+        method: "POST",
+        headers: {
+          "Accept": "text/event-stream",
+        },
+        body: JSON.stringify(body),
+        signal,
+      }));
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (!line.startsWith("data: ")) continue;
-        const data = line.slice(6);
-        if (data === "[DONE]") continue;
-
-        try {
-          const event = JSON.parse(data);
-
-          if (event.type === "content_block_delta" && event.delta?.text) {
-            content += event.delta.text;
-            yield event.delta.text;
-          } else if (event.type === "message_delta") {
-            stopReason = event.delta?.stop_reason || stopReason;
-            outputTokens = event.usage?.output_tokens || outputTokens;
-          } else if (event.type === "message_start") {
-            model = event.message?.model || model;
-            inputTokens = event.message?.usage?.input_tokens || inputTokens;
+      if (!res.ok) {
+        throw await errorFromResponse(res);
+      }
+
+      const streamReader = res.body?.getReader();
+      if (!streamReader) {
+        throw new StreamInterruptedError("No response body", {
+          status: res.status,
+          requestId: res.headers.get("request-id"),
+          headers: res.headers,
+        });
+      }
+      reader = streamReader;
+
+      // Cancelling the reader ends a pending read, even on transports that ignore the signal
+      signal?.addEventListener("abort", cancelReader, { once: true });
+
+      const chunks = async function* () {
+        while (true) {
+          let chunk: ReadableStreamReadResult<Uint8Array>;
+          try {
+            chunk = await streamReader.read();
+          } catch (err: any) {
+            if (signal?.aborted) throw signal.reason;
+            throw new StreamInterruptedError(`Stream interrupted: ${err.message}`, {
+              status: res.status,
+              requestId: res.headers.get("request-id"),
+              headers: res.headers,
+              cause: err,
+            });
           }
-        } catch {
-          // Ignore parse errors
+
+          if (signal?.aborted) throw signal.reason;
+          if (chunk.done) return;
+          yield chunk.value;
         }
+      };
+
+      const accumulator = new MessageAccumulator(res.headers);
+      let stopped = false;
+
+      for await (const raw of parseSSE(chunks())) {
+        events?.push(structuredClone(raw));
+        const event = accumulator.apply(raw);
+        if (!event) continue;
+        stopped ||= event.type === "message_stop";
+        yield event;
+      }
+
+      if (!stopped) {
+        throw new StreamInterruptedError("Stream ended before message_stop", {
+          status: res.status,
+          requestId: res.headers.get("request-id"),
+          headers: res.headers,
+        });
+      }
+      message = accumulator.message;
+      slot?.settle(message.usage);
+    } finally {
+      // Runs on completion, error, abort, or the consumer breaking out early
+      signal?.removeEventListener("abort", cancelReader);
+      requestSignal?.cleanup();
+      if (reader) {
+        await reader.cancel().catch(() => {});
+        reader.releaseLock();
       }
     }
 
     const duration = Date.now() - startTime;
+    await this.recorder(options)?.recordResponse(message);
+    if (cacheKey) await this.responseCache!.set(cacheKey, message, events);
+    const cost = this.account(message, options);
 
     // Telemetry (async, skipped in minimal mode)
     if (!this.config.skipTelemetry) {
-      this.sendTelemetry(duration, { input_tokens: inputTokens, output_tokens: outputTokens }).catch(() => {});
+      this.sendTelemetry(duration, message.usage).catch(() => {});
     }
 
-    return {
-      content,
-      inputTokens,
-      outputTokens,
-      model,
-      stopReason,
-    };
+    return { message, costUsd: cost, attempts, retryWaitMs, rateLimit, cached: false };
+  }
+
+  /**
+   * Streaming inference - text only (convenience wrapper over streamEvents)
+   */
+  async *queryStream(options: QueryOptions): AsyncGenerator<string, QueryResult, unknown> {
+    const stream: AsyncIterator<StreamEvent, StreamResult> = this.streamEvents(options);
+
+    try {
+      while (true) {
+        const next = await stream.next();
+
+        if (next.done) {
+          const { message, ...meta } = next.value;
+          return toQueryResult(message, meta);
+        }
+
+        const event = next.value;
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yield event.delta.text;
+        }
+      }
+    } finally {
+      // Consumer broke out early: close the underlying request
+      await stream.return?.();
+    }
   }
 
   /**
@@ -434,9 +1172,9 @@ export class ClaudeDirect {
     usage: { input_tokens: number; output_tokens: number }
   ): Promise<void> {
     // Anthropic event logging
-    const anthropicTelemetry = fetch(`${API_BASE}/api/event_logging/batch`, {
+    const anthropicTelemetry = this.request("telemetry", {
       method: "POST",
-      headers: this.getHeaders(),
+      headers: await this.getHeaders(),
       body: JSON.stringify({
         events: [
           {
@@ -469,7 +1207,7 @@ export class ClaudeDirect {
       `version:${CLI_VERSION}`,
     ].join(",");
 
-    const datadogTelemetry = fetch(DATADOG_ENDPOINT, {
+    const datadogTelemetry = this.request("datadog", {
       method: "POST",
       headers: {
         "Accept": "application/json, text/plain, */*",
@@ -506,6 +1244,92 @@ export class ClaudeDirect {
 // Simple helper functions
 // ============================================
 
+/**
+ * Concatenated text of the thinking blocks in a response
+ */
+export function thinkingText(content: ContentBlock[]): string {
+  return content
+    .filter((b): b is ThinkingBlock => b.type === "thinking")
+    .map((b) => b.thinking)
+    .join("\n");
+}
+
+/**
+ * Concatenated text of the text blocks in a response
+ */
+export function textContent(content: ContentBlock[]): string {
+  return content
+    .filter((b): b is TextBlock => b.type === "text")
+    .map((b) => b.text)
+    .join("");
+}
+
+/**
+ * Tool calls in a response, in order
+ */
+export function toolUseBlocks(content: ContentBlock[]): ToolUseBlock[] {
+  return content.filter((b): b is ToolUseBlock => b.type === "tool_use");
+}
+
+/**
+ * Thinking blocks in a response, redacted ones included (pass them back unchanged)
+ */
+export function thinkingBlocks(content: ContentBlock[]): Array<ThinkingBlock | RedactedThinkingBlock> {
+  return content.filter(
+    (b): b is ThinkingBlock | RedactedThinkingBlock => b.type === "thinking" || b.type === "redacted_thinking"
+  );
+}
+
+/**
+ * Every citation of the text blocks in a response, in order
+ */
+export function textCitations(content: ContentBlock[]): Citation[] {
+  return content.flatMap((b) => (b.type === "text" && b.citations) || []);
+}
+
+/**
+ * QueryResult of a complete message (query and queryStream)
+ */
+function toQueryResult(
+  message: APIMessage,
+  meta: Pick<QueryResult, "costUsd" | "attempts" | "retryWaitMs" | "rateLimit" | "cached">
+): QueryResult {
+  const content = message.content || [];
+  const usage = message.usage || { input_tokens: 0, output_tokens: 0 };
+  return {
+    content: textContent(content),
+    contentBlocks: content,
+    thinking: thinkingText(content),
+    id: message.id,
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+    usage,
+    costUsd: meta.costUsd,
+    model: message.model,
+    stopReason: message.stop_reason || "",
+    stopSequence: message.stop_sequence ?? null,
+    attempts: meta.attempts,
+    retryWaitMs: meta.retryWaitMs,
+    rateLimit: meta.rateLimit,
+    cached: meta.cached,
+  };
+}
+
+/**
+ * Explicit credentials first, then ANTHROPIC_API_KEY / CLAUDE_CODE_OAUTH_TOKEN
+ */
+function resolveAuth(options?: { auth?: AuthProvider; apiKey?: string; oauthToken?: string }): AuthProvider {
+  if (options?.auth) return options.auth;
+  if (options?.apiKey) return new ApiKeyAuth(options.apiKey);
+  if (options?.oauthToken) return new OAuthBearerAuth(options.oauthToken);
+
+  const auth = authFromEnv();
+  if (!auth) throw new Error("Missing credentials: set ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN");
+  return auth;
+}
+
 /**
  * Quick one-shot query (minimal mode, fastest)
  */
@@ -516,17 +1340,26 @@ export async function queryDirect(
     systemPrompt?: string;
     maxTokens?: number;
     oauthToken?: string;
+    apiKey?: string;
+    baseUrl?: string;
   }
-): Promise<{ content: string; tokens: { input: number; output: number }; timeMs: number }> {
-  const token = options?.oauthToken || process.env.CLAUDE_CODE_OAUTH_TOKEN;
-  if (!token) throw new Error("Missing OAuth token");
+): Promise<{
+  content: string;
+  tokens: { input: number; output: number };
+  costUsd: number;
+  timeMs: number;
+  attempts: number;
+  retryWaitMs: number;
+}> {
+  const auth = resolveAuth(options);
 
   const startTime = Date.now();
 
   const client = new ClaudeDirect({
-    oauthToken: token,
+    auth,
     model: options?.model,
     minimal: true, // Fastest mode
+    baseUrl: options?.baseUrl,
   });
 
   const result = await client.query({
@@ -538,7 +1371,10 @@ export async function queryDirect(
   return {
     content: result.content,
     tokens: { input: result.inputTokens, output: result.outputTokens },
+    costUsd: result.costUsd,
     timeMs: Date.now() - startTime,
+    attempts: result.attempts,
+    retryWaitMs: result.retryWaitMs,
   };
 }
 
@@ -548,14 +1384,25 @@ export async function queryDirect(
 export function createClient(options?: {
   model?: string;
   oauthToken?: string;
+  apiKey?: string;
+  auth?: AuthProvider;
   minimal?: boolean;
+  baseUrl?: string;
+  fetch?: FetchLike;
+  sessionId?: string;
+  sessionStore?: SessionStore;
+  rateLimit?: RateLimiterOptions;
+  responseCache?: ResponseCacheOptions;
 }): ClaudeDirect {
-  const token = options?.oauthToken || process.env.CLAUDE_CODE_OAUTH_TOKEN;
-  if (!token) throw new Error("Missing OAuth token");
-
   return new ClaudeDirect({
-    oauthToken: token,
+    auth: resolveAuth(options),
     model: options?.model,
     minimal: options?.minimal ?? true,
+    baseUrl: options?.baseUrl,
+    fetch: options?.fetch,
+    sessionId: options?.sessionId,
+    sessionStore: options?.sessionStore,
+    rateLimit: options?.rateLimit,
+    responseCache: options?.responseCache,
   });
 }
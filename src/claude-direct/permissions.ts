@@ -0,0 +1,91 @@
+/**
+ * Permission checks for tool calls
+ *
+ * Every tool_use block is checked before its handler runs, in this order:
+ *   1. disallowedTools   denied (these tools are also never sent to the model)
+ *   2. mode "plan"       denied: the model is told to describe its plan instead
+ *   3. mode "bypassPermissions", or the tool is in allowedTools: allowed
+ *   4. canUseTool        its decision (may rewrite the input, or wait for a human)
+ *   5. allowedTools set  anything not in it is denied
+ *   6. otherwise         allowed
+ *
+ * A denial is sent back to the model as an is_error tool_result carrying the
+ * message, so it can adjust; the loop carries on.
+ */
+
+import type { ToolUseBlock } from "./types.js";
+
+export type PermissionMode = "default" | "bypassPermissions" | "plan";
+
+export type PermissionDecision =
+  /** Run the tool, with `input` replacing the model's input when given */
+  | { behavior: "allow"; input?: Record<string, any> }
+  /** Don't run it; `message` is returned to the model */
+  | { behavior: "deny"; message: string };
+
+export interface PermissionContext {
+  toolUseId: string;
+  /** Tool loop turn (1-based) */
+  turn: number;
+  /** Aborts when the loop is cancelled - cancel pending approval prompts with it */
+  signal?: AbortSignal;
+}
+
+export type CanUseTool = (
+  name: string,
+  input: Record<string, any>,
+  context: PermissionContext
+) => PermissionDecision | Promise<PermissionDecision>;
+
+export interface PermissionOptions {
+  /** "plan" runs no tools at all; "bypassPermissions" skips allowedTools and canUseTool (default: "default") */
+  permissionMode?: PermissionMode;
+  /** Tools that run without asking canUseTool; when set, unlisted tools need canUseTool's approval */
+  allowedTools?: string[];
+  /** Tools removed from the request and denied if called anyway */
+  disallowedTools?: string[];
+  /** Decide on each call that no rule above settled */
+  canUseTool?: CanUseTool;
+}
+
+export interface ToolDenial {
+  toolUseId: string;
+  name: string;
+  input: Record<string, any>;
+  turn: number;
+  /** Returned to the model as the tool_result */
+  message: string;
+}
+
+/**
+ * Decide whether a tool call may run
+ */
+export async function checkToolPermission(
+  toolUse: ToolUseBlock,
+  options: PermissionOptions,
+  context: PermissionContext
+): Promise<PermissionDecision> {
+  const { name, input } = toolUse;
+
+  if (options.disallowedTools?.includes(name)) {
+    return { behavior: "deny", message: `Tool "${name}" is not allowed` };
+  }
+  if (options.permissionMode === "plan") {
+    return {
+      behavior: "deny",
+      message: `Plan mode: "${name}" was not run. Describe what you would do instead of calling tools.`,
+    };
+  }
+  if (options.permissionMode === "bypassPermissions" || options.allowedTools?.includes(name)) {
+    return { behavior: "allow" };
+  }
+  if (options.canUseTool) {
+    const decision = await options.canUseTool(name, input, context);
+    context.signal?.throwIfAborted();
+    return decision;
+  }
+  if (options.allowedTools) {
+    return { behavior: "deny", message: `Tool "${name}" needs approval and was not run` };
+  }
+  return { behavior: "allow" };
+}
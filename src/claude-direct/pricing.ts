@@ -0,0 +1,153 @@
+/**
+ * Model pricing and usage accounting
+ *
+ * Prices are USD per million tokens, keyed by model ID without the date
+ * suffix ("claude-sonnet-4-5-20250929" → "claude-sonnet-4-5") or by alias
+ * ("sonnet"). Cache writes are priced at the 5-minute TTL rate.
+ */
+
+import type { Usage } from "./types.js";
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+export const MODEL_ALIASES: Record<string, string> = {
+  opus: "claude-opus-4-5",
+  sonnet: "claude-sonnet-4-5",
+  haiku: "claude-haiku-4-5",
+};
+
+/**
+ * Pricing for a model ID or alias, looked up as exact ID, ID without date,
+ * then alias. Any override match wins over the defaults. Undefined for unknown models.
+ */
+export function pricingFor(model: string, overrides: Record<string, ModelPricing> = {}): ModelPricing | undefined {
+  const base = model.replace(/-\d{8}$/, "");
+  const alias = Object.keys(MODEL_ALIASES).find((name) => MODEL_ALIASES[name] === base);
+  const keys = [model, base, alias, MODEL_ALIASES[base]].filter((key): key is string => key !== undefined);
+
+  for (const table of [overrides, DEFAULT_PRICING]) {
+    const key = keys.find((k) => table[k]);
+    if (key) return table[key];
+  }
+  return undefined;
+}
+
+/**
+ * USD cost of a request's usage (0 for models without pricing)
+ */
+export function costUsd(usage: Partial<Usage>, pricing: ModelPricing | undefined): number {
+  if (!pricing) return 0;
+  return (
+    ((usage.input_tokens || 0) * pricing.input +
+      (usage.output_tokens || 0) * pricing.output +
+      (usage.cache_creation_input_tokens || 0) * pricing.cacheWrite +
+      (usage.cache_read_input_tokens || 0) * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Which counters to read or reset: the whole client, one session or one tag
+ */
+export interface UsageFilter {
+  sessionId?: string;
+  tag?: string;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * Cumulative usage of a client, also broken down by session ID and tag
+ */
+export class UsageTracker {
+  private total = emptyTotals();
+  private sessions = new Map<string, UsageTotals>();
+  private tags = new Map<string, UsageTotals>();
+
+  record(usage: Partial<Usage>, cost: number, scope: { sessionId: string; tags?: string[] }): void {
+    const buckets = [
+      this.total,
+      this.bucket(this.sessions, scope.sessionId),
+      ...(scope.tags || []).map((tag) => this.bucket(this.tags, tag)),
+    ];
+
+    for (const totals of buckets) {
+      totals.requests++;
+      totals.inputTokens += usage.input_tokens || 0;
+      totals.outputTokens += usage.output_tokens || 0;
+      totals.cacheCreationInputTokens += usage.cache_creation_input_tokens || 0;
+      totals.cacheReadInputTokens += usage.cache_read_input_tokens || 0;
+      totals.costUsd += cost;
+    }
+  }
+
+  /**
+   * Totals for the client (no filter), a session or a tag
+   */
+  get(filter: UsageFilter = {}): UsageTotals {
+    const totals = filter.sessionId
+      ? this.sessions.get(filter.sessionId)
+      : filter.tag
+        ? this.tags.get(filter.tag)
+        : this.total;
+    return { ...(totals || emptyTotals()) };
+  }
+
+  /**
+   * Reset the client totals and every breakdown (no filter), or one session or tag
+   */
+  reset(filter: UsageFilter = {}): void {
+    if (filter.sessionId) {
+      this.sessions.delete(filter.sessionId);
+    } else if (filter.tag) {
+      this.tags.delete(filter.tag);
+    } else {
+      this.total = emptyTotals();
+      this.sessions.clear();
+      this.tags.clear();
+    }
+  }
+
+  private bucket(map: Map<string, UsageTotals>, key: string): UsageTotals {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  }
+}
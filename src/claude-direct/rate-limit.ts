@@ -0,0 +1,209 @@
+/**
+ * Rate-limit state from response headers, and a client-side limiter
+ *
+ * Every /v1/messages response carries rate-limit headers:
+ *   anthropic-ratelimit-unified-*                   (OAuth / subscription: status, utilization, reset)
+ *   anthropic-ratelimit-{requests,tokens,...}-*     (API key tiers: limit, remaining, reset)
+ * They are parsed onto each result and kept by the client, so checkQuota can
+ * answer without spending an inference call.
+ *
+ * The limiter queues requests to stay under configured requests / tokens per
+ * minute, and also waits out windows the server reports as exhausted, so
+ * requests slow down before the API starts answering 429. A server window
+ * further off than maxServerWaitMs (e.g. a rejected unified limit resetting
+ * in hours) fails the request with RateLimitError instead of waiting.
+ */
+
+import { RateLimitError } from "./errors.js";
+import { parseResetTime, sleep } from "./retry.js";
+import type { Usage } from "./types.js";
+
+export interface RateLimitWindow {
+  limit?: number;
+  remaining?: number;
+  /** Epoch ms */
+  resetAt?: number;
+}
+
+export interface RateLimitState {
+  /** Unified status: "allowed", "allowed_warning" or "rejected" */
+  status?: string;
+  /** Fraction of the unified 5h window used (0-1) */
+  utilization?: number;
+  /** Fraction of the unified 7d window used (0-1) */
+  utilization7d?: number;
+  /** When the unified limit resets (epoch ms) */
+  resetAt?: number;
+  requests?: RateLimitWindow;
+  tokens?: RateLimitWindow;
+  inputTokens?: RateLimitWindow;
+  outputTokens?: RateLimitWindow;
+  /** When these headers were received (epoch ms) */
+  observedAt: number;
+}
+
+export interface RateLimiterOptions {
+  requestsPerMinute?: number;
+  /** Input + output tokens per minute (input is estimated until the response arrives) */
+  tokensPerMinute?: number;
+  /** Longest wait for a server-exhausted window; beyond this, RateLimitError (default: 60000ms, Infinity waits for any reset) */
+  maxServerWaitMs?: number;
+}
+
+const PREFIX = "anthropic-ratelimit-";
+
+const WINDOWS = {
+  requests: "requests",
+  tokens: "tokens",
+  inputTokens: "input-tokens",
+  outputTokens: "output-tokens",
+} as const;
+
+const MINUTE_MS = 60_000;
+const DEFAULT_MAX_SERVER_WAIT_MS = 60_000;
+
+/**
+ * Parse rate-limit headers; undefined when the response has none
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitState | undefined {
+  let found = false;
+  headers.forEach((_value, name) => {
+    if (name.toLowerCase().startsWith(PREFIX)) found = true;
+  });
+  if (!found) return undefined;
+
+  const number = (name: string) => {
+    const value = headers.get(PREFIX + name);
+    return value === null || value === "" || isNaN(Number(value)) ? undefined : Number(value);
+  };
+  const reset = (name: string) => parseResetTime(headers.get(PREFIX + name)) ?? undefined;
+
+  const state: RateLimitState = {
+    status: headers.get(`${PREFIX}unified-status`) ?? undefined,
+    utilization: number("unified-5h-utilization"),
+    utilization7d: number("unified-7d-utilization"),
+    resetAt: reset("unified-reset"),
+    observedAt: now,
+  };
+
+  for (const [key, header] of Object.entries(WINDOWS)) {
+    const window: RateLimitWindow = {
+      limit: number(`${header}-limit`),
+      remaining: number(`${header}-remaining`),
+      resetAt: reset(`${header}-reset`),
+    };
+    if (window.limit !== undefined || window.remaining !== undefined || window.resetAt !== undefined) {
+      state[key as keyof typeof WINDOWS] = window;
+    }
+  }
+
+  return state;
+}
+
+interface Reservation {
+  at: number;
+  tokens: number;
+}
+
+/**
+ * Client-side limiter. Requests acquire a slot in FIFO order; each slot
+ * reserves its estimated tokens, corrected with the real usage on settle().
+ */
+export class RateLimiter {
+  private reservations: Reservation[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private server?: RateLimitState;
+
+  constructor(private readonly options: RateLimiterOptions) {}
+
+  /**
+   * Latest server-reported state (exhausted windows are waited out, up to maxServerWaitMs)
+   */
+  observe(state: RateLimitState): void {
+    this.server = state;
+  }
+
+  /**
+   * Wait for a slot. The returned settle() records the request's real usage.
+   */
+  async acquire(estimatedTokens: number, signal?: AbortSignal): Promise<{ settle(usage: Partial<Usage>): void }> {
+    const turn = this.queue.then(() => this.waitForCapacity(estimatedTokens, signal));
+    this.queue = turn.catch(() => {});
+    const reservation = await turn;
+
+    return {
+      settle: (usage) => {
+        reservation.tokens = (usage.input_tokens || 0) + (usage.output_tokens || 0);
+      },
+    };
+  }
+
+  private async waitForCapacity(tokens: number, signal?: AbortSignal): Promise<Reservation> {
+    while (true) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      this.reservations = this.reservations.filter((r) => r.at > now - MINUTE_MS);
+
+      const serverDelay = this.serverDelayMs(tokens, now);
+      if (serverDelay > (this.options.maxServerWaitMs ?? DEFAULT_MAX_SERVER_WAIT_MS)) {
+        throw new RateLimitError(`Rate limit exhausted until ${new Date(now + serverDelay).toISOString()}`, {
+          type: "rate_limit_error",
+        });
+      }
+
+      const delay = Math.max(this.localDelayMs(tokens, now), serverDelay);
+      if (delay <= 0) {
+        const reservation = { at: now, tokens };
+        this.reservations.push(reservation);
+        return reservation;
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Time until the configured per-minute limits have room
+   */
+  private localDelayMs(tokens: number, now: number): number {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    let delay = 0;
+
+    if (requestsPerMinute && this.reservations.length >= requestsPerMinute) {
+      const oldest = this.reservations[this.reservations.length - requestsPerMinute];
+      delay = Math.max(delay, oldest.at + MINUTE_MS - now);
+    }
+
+    if (tokensPerMinute) {
+      // Drop the oldest reservations until the request fits (an oversized request waits for an empty window)
+      let used = this.reservations.reduce((sum, r) => sum + r.tokens, 0);
+      for (const r of this.reservations) {
+        if (used + tokens <= tokensPerMinute || used === 0) break;
+        used -= r.tokens;
+        delay = Math.max(delay, r.at + MINUTE_MS - now);
+      }
+    }
+
+    return delay;
+  }
+
+  /**
+   * Time until windows the server reported as exhausted reset
+   */
+  private serverDelayMs(tokens: number, now: number): number {
+    const state = this.server;
+    if (!state) return 0;
+
+    const until = (resetAt?: number) => (resetAt && resetAt > now ? resetAt - now : 0);
+    let delay = 0;
+
+    if (state.status === "rejected") delay = Math.max(delay, until(state.resetAt));
+    if (state.requests?.remaining === 0) delay = Math.max(delay, until(state.requests.resetAt));
+    for (const window of [state.tokens, state.inputTokens]) {
+      if (window?.remaining !== undefined && window.remaining < tokens) {
+        delay = Math.max(delay, until(window.resetAt));
+      }
+    }
+
+    return delay;
+  }
+}
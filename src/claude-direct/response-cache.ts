@@ -0,0 +1,221 @@
+/**
+ * Response cache for repeated identical requests
+ *
+ * Keyed by a SHA-256 of the canonical request body (sorted keys, without
+ * `metadata` and `stream`), so the same model, system prompt, messages,
+ * tools and sampling settings hit the same entry whichever call made them.
+ * Meant for deterministic requests (temperature 0): nothing checks that a
+ * cached answer is one the model would give again.
+ *
+ * Streamed responses keep their raw events and replay them verbatim;
+ * responses cached from a non-streaming call are replayed as an equivalent
+ * event sequence.
+ *
+ *   <dir>/<key>.json
+ *   {"message":{"role":"assistant","content":[...]},"events":[...],"storedAt":...}
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { APIMessage } from "./types.js";
+
+export interface CachedResponse {
+  message: APIMessage;
+  /** Raw stream events, when the response was streamed */
+  events?: any[];
+  /** Epoch ms */
+  storedAt: number;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  store: ResponseCacheStore;
+  /** Entries older than this are ignored and deleted, whenever they were stored (default: never expire) */
+  ttlMs?: number;
+}
+
+// Fields that differ between otherwise identical requests
+const IGNORED_FIELDS = new Set(["metadata", "stream"]);
+
+/**
+ * Cache key of a /v1/messages request body
+ */
+export function responseCacheKey(body: Record<string, any>): string {
+  const relevant = Object.fromEntries(Object.entries(body).filter(([key]) => !IGNORED_FIELDS.has(key)));
+  return createHash("sha256").update(canonicalJson(relevant)).digest("hex");
+}
+
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * TTL handling over a store (used by the client)
+ */
+export class ResponseCache {
+  private readonly store: ResponseCacheStore;
+  private readonly ttlMs?: number;
+
+  constructor(options: ResponseCacheOptions) {
+    this.store = options.store;
+    this.ttlMs = options.ttlMs;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.store.get(key);
+    if (entry && this.ttlMs !== undefined && entry.storedAt + this.ttlMs <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, message: APIMessage, events?: any[]): Promise<void> {
+    await this.store.set(key, { message, events, storedAt: Date.now() });
+  }
+}
+
+/**
+ * Least-recently-used entries kept in process memory
+ */
+export class MemoryResponseCache implements ResponseCacheStore {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry);
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * One JSON file per entry in a directory (shared across processes and runs)
+ */
+export class FileResponseCache implements ResponseCacheStore {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(key), "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT" || err instanceof SyntaxError) return undefined;
+      throw err;
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename, so concurrent readers never see a partial file
+    const tmp = `${this.path(key)}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry));
+    await rename(tmp, this.path(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (err: any) {
+      if (err.code === "ENOENT") return;
+      throw err;
+    }
+    await Promise.all(files.filter((f) => f.endsWith(".json")).map((f) => rm(join(this.dir, f), { force: true })));
+  }
+
+  private path(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid cache key for file storage: ${key}`);
+    }
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Raw stream events equivalent to a complete message, for replaying a
+ * response that was cached from a non-streaming call
+ */
+export function messageEvents(message: APIMessage): any[] {
+  const { content, stop_reason, stop_sequence, usage, ...rest } = message;
+  const events: any[] = [
+    {
+      type: "message_start",
+      message: { ...rest, content: [], stop_reason: null, stop_sequence: null, usage: { ...usage, output_tokens: 0 } },
+    },
+  ];
+
+  content.forEach((block, index) => {
+    let start: any = block;
+    const deltas: any[] = [];
+
+    if (block.type === "text") {
+      start = { type: "text", text: "" };
+      for (const citation of block.citations || []) deltas.push({ type: "citations_delta", citation });
+      deltas.push({ type: "text_delta", text: block.text });
+    } else if (block.type === "tool_use") {
+      start = { ...block, input: {} };
+      deltas.push({ type: "input_json_delta", partial_json: JSON.stringify(block.input) });
+    } else if (block.type === "thinking") {
+      start = { type: "thinking", thinking: "" };
+      deltas.push({ type: "thinking_delta", thinking: block.thinking });
+      if (block.signature) deltas.push({ type: "signature_delta", signature: block.signature });
+    }
+
+    events.push({ type: "content_block_start", index, content_block: start });
+    for (const delta of deltas) events.push({ type: "content_block_delta", index, delta });
+    events.push({ type: "content_block_stop", index });
+  });
+
+  events.push(
+    { type: "message_delta", delta: { stop_reason, stop_sequence }, usage: { output_tokens: usage.output_tokens } },
+    { type: "message_stop" }
+  );
+  return events;
+}
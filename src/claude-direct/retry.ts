@@ -0,0 +1,140 @@
+/**
+ * Retry policy for transient API failures
+ *
+ * Retried: 408, 409, 429 (rate_limit_error), 5xx (api_error), 529 (overloaded_error)
+ * and connection failures. Never retried: 400, 401, 403, 404, 413 — sending the
+ * same request again cannot succeed.
+ *
+ * Delay: server hint first (retry-after-ms, retry-after, anthropic-ratelimit-*-reset),
+ * otherwise exponential backoff with jitter.
+ */
+
+export interface RetryPolicy {
+  /** Total attempts including the first (default: 3) */
+  maxAttempts?: number;
+  /** First backoff delay (default: 500ms) */
+  initialDelayMs?: number;
+  /** Backoff cap (default: 8000ms) */
+  maxDelayMs?: number;
+  /** Random jitter as a fraction of the delay, 0-1 (default: 0.25) */
+  jitter?: number;
+  /** Longest server-requested wait we honor; beyond this we give up (default: 60000ms) */
+  maxRetryAfterMs?: number;
+  /** Status codes to retry (default: 408, 409, 429, 500, 502, 503, 504, 529) */
+  retryOnStatus?: number[];
+  /** Retry network-level failures (default: true) */
+  retryOnConnectionError?: boolean;
+  /** Called before each retry sleep */
+  onRetry?: (info: { attempt: number; delayMs: number; status?: number; error?: Error }) => void;
+}
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "onRetry">> & Pick<RetryPolicy, "onRetry">;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.25,
+  maxRetryAfterMs: 60_000,
+  retryOnStatus: [408, 409, 429, 500, 502, 503, 504, 529],
+  retryOnConnectionError: true,
+};
+
+// Rate limit windows the API reports; a reset only matters if that window is exhausted
+const RATE_LIMIT_WINDOWS = ["requests", "tokens", "input-tokens", "output-tokens"];
+
+export function resolveRetryPolicy(policy?: RetryPolicy | false): ResolvedRetryPolicy {
+  if (policy === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Whether a failed response is worth retrying
+ */
+export function isRetryableResponse(res: Response, policy: ResolvedRetryPolicy): boolean {
+  // Server override takes precedence
+  const shouldRetry = res.headers.get("x-should-retry");
+  if (shouldRetry === "true") return true;
+  if (shouldRetry === "false") return false;
+
+  return policy.retryOnStatus.includes(res.status);
+}
+
+/**
+ * Exponential backoff with jitter for attempt N (1-based)
+ */
+export function backoffDelayMs(attempt: number, policy: ResolvedRetryPolicy): number {
+  const base = Math.min(policy.initialDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const jitter = base * policy.jitter * Math.random();
+  return Math.round(base - jitter);
+}
+
+/**
+ * Server-requested delay from response headers, or null if none given
+ */
+export function serverDelayMs(headers: Headers, now: number = Date.now()): number | null {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) return Math.max(0, Number(retryAfter) * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - now);
+  }
+
+  // Exhausted rate limit windows: wait for the latest of their resets
+  let resetAt: number | null = null;
+  for (const window of RATE_LIMIT_WINDOWS) {
+    if (headers.get(`anthropic-ratelimit-${window}-remaining`) !== "0") continue;
+    const reset = parseResetTime(headers.get(`anthropic-ratelimit-${window}-reset`));
+    if (reset !== null) resetAt = Math.max(resetAt ?? 0, reset);
+  }
+  if (headers.get("anthropic-ratelimit-unified-status") === "rejected") {
+    const reset = parseResetTime(headers.get("anthropic-ratelimit-unified-reset"));
+    if (reset !== null) resetAt = Math.max(resetAt ?? 0, reset);
+  }
+
+  return resetAt === null ? null : Math.max(0, resetAt - now);
+}
+
+/**
+ * Delay before the next attempt, or null if the server wants us to wait
+ * longer than the policy allows
+ */
+export function retryDelayMs(attempt: number, headers: Headers | undefined, policy: ResolvedRetryPolicy): number | null {
+  const hinted = headers ? serverDelayMs(headers) : null;
+  if (hinted === null) return backoffDelayMs(attempt, policy);
+  return hinted > policy.maxRetryAfterMs ? null : hinted;
+}
+
+/**
+ * Parse a reset header: RFC 3339 timestamp or epoch seconds
+ */
+export function parseResetTime(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : date;
+}
+
+/**
+ * Sleep that rejects with the signal's reason if aborted mid-wait
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Quick / Task pools on ClaudeDirect (no Agent SDK subprocess)
+ *
+ * - QuickPool: stateless one-shot answers, spread round-robin over a few clients
+ * - TaskPool: tasks run through the tool loop; `persist: true` records the
+ *   session so a later call with its `sessionId` resumes the history
+ */
+
+import {
+  createClient,
+  MemorySessionStore,
+  MODEL_ALIASES,
+  type ClaudeDirect,
+  type Conversation,
+  type SessionStore,
+} from "../../index.js";
+import type { ToolDefinition, ToolHandler } from "../../tool-loop.js";
+
+const DEFAULT_MODEL = "haiku";
+
+// SDK-style aliases (haiku, sonnet, opus) become API model aliases
+function resolveModel(model = DEFAULT_MODEL): string {
+  return MODEL_ALIASES[model] || model;
+}
+
+export interface QuickPoolOptions {
+  /** Clients per model (default: 2) */
+  poolSize?: number;
+  systemPrompt?: string;
+  maxTokens?: number;
+}
+
+export interface QuickTask {
+  task: string;
+  /** Model ID or alias: haiku, sonnet, opus (default: haiku) */
+  model?: string;
+}
+
+export interface QuickResult {
+  answer: string;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+}
+
+export class QuickPool {
+  private clients = new Map<string, ClaudeDirect[]>();
+  private next = 0;
+  private stats = { requests: 0, errors: 0, totalDurationMs: 0 };
+
+  constructor(private readonly options: QuickPoolOptions = {}) {}
+
+  async execute({ task, model }: QuickTask): Promise<QuickResult> {
+    const start = Date.now();
+    this.stats.requests++;
+
+    try {
+      const result = await this.client(resolveModel(model)).query({
+        messages: [{ role: "user", content: task }],
+        systemPrompt: this.options.systemPrompt,
+        maxTokens: this.options.maxTokens,
+      });
+      return {
+        answer: result.content,
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+        durationMs: Date.now() - start,
+      };
+    } catch (err) {
+      this.stats.errors++;
+      throw err;
+    } finally {
+      this.stats.totalDurationMs += Date.now() - start;
+    }
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      poolSize: this.options.poolSize ?? 2,
+      avgDurationMs: this.stats.requests ? Math.round(this.stats.totalDurationMs / this.stats.requests) : 0,
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.clients.clear();
+  }
+
+  private client(model: string): ClaudeDirect {
+    let clients = this.clients.get(model);
+    if (!clients) {
+      clients = Array.from({ length: this.options.poolSize ?? 2 }, () => createClient({ model }));
+      this.clients.set(model, clients);
+    }
+    return clients[this.next++ % clients.length];
+  }
+}
+
+export interface TaskPoolOptions {
+  /** Drop idle sessions from memory after this long (they stay resumable from the store) */
+  sessionTimeoutMs?: number;
+  /** Where persisted sessions are recorded (default: in memory) */
+  store?: SessionStore;
+  systemPrompt?: string;
+  tools?: ToolDefinition[];
+  toolHandlers?: Record<string, ToolHandler>;
+  maxTurns?: number;
+  maxTokens?: number;
+}
+
+export interface TaskRequest {
+  task: string;
+  model?: string;
+  /** Record the session so it can be resumed with the returned sessionId */
+  persist?: boolean;
+  /** Continue a persisted session */
+  sessionId?: string;
+}
+
+export interface TaskResult {
+  answer: string;
+  status: "completed" | "failed";
+  error?: string;
+  sessionId?: string;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+}
+
+interface LiveSession {
+  conversation: Conversation;
+  lastUsed: number;
+}
+
+export class TaskPool {
+  private readonly store: SessionStore;
+  private sessions = new Map<string, LiveSession>();
+  private stats = { tasks: 0, failed: 0, resumed: 0, expired: 0 };
+
+  constructor(private readonly options: TaskPoolOptions = {}) {
+    this.store = options.store || new MemorySessionStore();
+  }
+
+  async execute({ task, model, persist, sessionId }: TaskRequest): Promise<TaskResult> {
+    const start = Date.now();
+    this.stats.tasks++;
+    this.expireIdle();
+
+    try {
+      const { conversation, id } = await this.session(resolveModel(model), persist, sessionId);
+      const result = await conversation.send(task);
+
+      if (id) this.sessions.set(id, { conversation, lastUsed: Date.now() });
+      return {
+        answer: result.content,
+        status: "completed",
+        sessionId: id,
+        turns: result.turns,
+        inputTokens: result.totalInputTokens,
+        outputTokens: result.totalOutputTokens,
+        durationMs: Date.now() - start,
+      };
+    } catch (err: any) {
+      this.stats.failed++;
+      return {
+        answer: "",
+        status: "failed",
+        error: err.message,
+        sessionId,
+        turns: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        durationMs: Date.now() - start,
+      };
+    }
+  }
+
+  getStats() {
+    return { ...this.stats, liveSessions: this.sessions.size };
+  }
+
+  async shutdown(): Promise<void> {
+    this.sessions.clear();
+  }
+
+  private async session(
+    model: string,
+    persist?: boolean,
+    sessionId?: string
+  ): Promise<{ conversation: Conversation; id?: string }> {
+    const conversationOptions = {
+      systemPrompt: this.options.systemPrompt,
+      tools: this.options.tools,
+      toolHandlers: this.options.toolHandlers,
+      maxTurns: this.options.maxTurns,
+      maxTokens: this.options.maxTokens,
+    };
+
+    if (sessionId) {
+      const live = this.sessions.get(sessionId);
+      if (live) return { conversation: live.conversation, id: sessionId };
+
+      this.stats.resumed++;
+      const client = createClient({ model, sessionStore: this.store });
+      return { conversation: await client.resumeSession(sessionId, conversationOptions), id: sessionId };
+    }
+
+    if (persist) {
+      const client = createClient({ model, sessionStore: this.store });
+      return { conversation: client.conversation(conversationOptions), id: client.sessionId };
+    }
+
+    return { conversation: createClient({ model }).conversation(conversationOptions) };
+  }
+
+  private expireIdle(): void {
+    if (!this.options.sessionTimeoutMs) return;
+
+    const cutoff = Date.now() - this.options.sessionTimeoutMs;
+    for (const [id, session] of this.sessions) {
+      if (session.lastUsed < cutoff) {
+        this.sessions.delete(id);
+        this.stats.expired++;
+      }
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Durable sessions: every request, response and tool call is appended under
+ * the client's session ID, so the message history can be rebuilt later and
+ * the conversation resumed (client.resumeSession).
+ *
+ * Requests only store the messages that are new since the last recorded
+ * history, plus the offset they start at. Rebuilding truncates to the offset
+ * and appends, which also replays undo / edited histories correctly.
+ *
+ *   <dir>/<sessionId>.jsonl
+ *   {"type":"request","offset":0,"messages":[{"role":"user",...}],...}
+ *   {"type":"response","message":{"role":"assistant","content":[...]},...}
+ *   {"type":"tool_call","name":"calculate","input":{...},"result":"4",...}
+ */
+
+import { appendFile, mkdir, readdir, readFile } from "fs/promises";
+import { join } from "path";
+import type { Message, ToolResultBlock, ToolResultContent, ToolUseBlock, Usage } from "./types.js";
+
+export type SessionEntry =
+  | {
+      type: "request";
+      timestamp: string;
+      model: string;
+      systemPrompt?: string;
+      /** Index in the history where `messages` start */
+      offset: number;
+      messages: Message[];
+    }
+  | {
+      type: "response";
+      timestamp: string;
+      model: string;
+      message: Message;
+      stopReason: string | null;
+      usage: Usage;
+    }
+  | {
+      type: "tool_call";
+      timestamp: string;
+      toolUseId: string;
+      name: string;
+      input: Record<string, any>;
+      result: ToolResultContent;
+      isError: boolean;
+    };
+
+export interface SessionStore {
+  append(sessionId: string, entry: SessionEntry): Promise<void>;
+  /** Entries in append order ([] for an unknown session) */
+  load(sessionId: string): Promise<SessionEntry[]>;
+  list(): Promise<string[]>;
+}
+
+/**
+ * Sessions kept in process memory (tests, short-lived workers)
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionEntry[]>();
+
+  async append(sessionId: string, entry: SessionEntry): Promise<void> {
+    const entries = this.sessions.get(sessionId) || [];
+    entries.push(structuredClone(entry));
+    this.sessions.set(sessionId, entries);
+  }
+
+  async load(sessionId: string): Promise<SessionEntry[]> {
+    return structuredClone(this.sessions.get(sessionId) || []);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.sessions.keys()];
+  }
+}
+
+/**
+ * One JSONL file per session in a directory
+ */
+export class JsonlSessionStore implements SessionStore {
+  constructor(private readonly dir: string) {}
+
+  async append(sessionId: string, entry: SessionEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(this.path(sessionId), JSON.stringify(entry) + "\n");
+  }
+
+  async load(sessionId: string): Promise<SessionEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path(sessionId), "utf8");
+    } catch (err: any) {
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+
+    const entries: SessionEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Ignore a partial last line from a crash mid-write
+      }
+    }
+    return entries;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.dir);
+      return files.filter((f) => f.endsWith(".jsonl")).map((f) => f.slice(0, -".jsonl".length));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  private path(sessionId: string): string {
+    if (!/^[\w.-]+$/.test(sessionId) || sessionId.startsWith(".")) {
+      throw new Error(`Invalid session ID for file storage: ${sessionId}`);
+    }
+    return join(this.dir, `${sessionId}.jsonl`);
+  }
+}
+
+// Result for a tool call that never finished (the process stopped mid-loop)
+const INTERRUPTED_RESULT = "Error: Tool call was interrupted before it finished";
+
+/**
+ * Rebuild the message history (and the last system prompt) from session entries.
+ * A history ending in tool_use blocks (loop stopped by maxTurns, or the process
+ * died while tools ran) gets its tool_result turn from the recorded tool calls,
+ * so the API accepts the next request.
+ */
+export function rebuildHistory(entries: SessionEntry[]): { messages: Message[]; systemPrompt?: string } {
+  const messages: Message[] = [];
+  const toolCalls = new Map<string, Extract<SessionEntry, { type: "tool_call" }>>();
+  let systemPrompt: string | undefined;
+
+  for (const entry of entries) {
+    if (entry.type === "request") {
+      messages.length = Math.min(entry.offset, messages.length);
+      messages.push(...entry.messages);
+      systemPrompt = entry.systemPrompt;
+    } else if (entry.type === "response") {
+      messages.push(entry.message);
+    } else {
+      toolCalls.set(entry.toolUseId, entry);
+    }
+  }
+
+  const last = messages.at(-1);
+  const toolUses =
+    last?.role === "assistant" && typeof last.content !== "string"
+      ? last.content.filter((block): block is ToolUseBlock => block.type === "tool_use")
+      : [];
+  if (toolUses.length > 0) {
+    messages.push({
+      role: "user",
+      content: toolUses.map((toolUse): ToolResultBlock => {
+        const call = toolCalls.get(toolUse.id);
+        return call
+          ? { type: "tool_result", tool_use_id: toolUse.id, content: call.result, is_error: call.isError }
+          : { type: "tool_result", tool_use_id: toolUse.id, content: INTERRUPTED_RESULT, is_error: true };
+      }),
+    });
+  }
+
+  return { messages, systemPrompt };
+}
+
+/**
+ * Appends a client's traffic to a store under one session ID.
+ * Writes are serialized so entries keep their order under concurrent calls.
+ */
+export class SessionRecorder {
+  // Serialized history as last recorded, to find what a request adds
+  private known: string[];
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly store: SessionStore,
+    readonly sessionId: string,
+    history: Message[] = []
+  ) {
+    this.known = history.map((m) => JSON.stringify(m));
+  }
+
+  recordRequest(request: { model: string; systemPrompt?: string; messages: Message[] }): Promise<void> {
+    const serialized = request.messages.map((m) => JSON.stringify(m));
+    let offset = 0;
+    while (offset < this.known.length && offset < serialized.length && this.known[offset] === serialized[offset]) {
+      offset++;
+    }
+    this.known = serialized;
+
+    return this.write({
+      type: "request",
+      timestamp: new Date().toISOString(),
+      model: request.model,
+      systemPrompt: request.systemPrompt,
+      offset,
+      messages: request.messages.slice(offset),
+    });
+  }
+
+  recordResponse(response: { model: string; content: any[]; stop_reason: string | null; usage: Usage }): Promise<void> {
+    const message: Message = { role: "assistant", content: response.content };
+    this.known.push(JSON.stringify(message));
+
+    return this.write({
+      type: "response",
+      timestamp: new Date().toISOString(),
+      model: response.model,
+      message,
+      stopReason: response.stop_reason,
+      usage: response.usage,
+    });
+  }
+
+  recordToolCall(call: {
+    toolUseId: string;
+    name: string;
+    input: Record<string, any>;
+    result: ToolResultContent;
+    isError: boolean;
+  }): Promise<void> {
+    return this.write({ type: "tool_call", timestamp: new Date().toISOString(), ...call });
+  }
+
+  private write(entry: SessionEntry): Promise<void> {
+    const next = this.pending.then(() => this.store.append(this.sessionId, entry));
+    this.pending = next.catch(() => {});
+    return next;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Cancellation helpers: caller AbortSignal + timeout folded into one signal
+ * whose `reason` is a typed error (RequestAbortedError / APITimeoutError).
+ */
+
+import { APITimeoutError, ClaudeDirectError } from "./errors.js";
+
+/**
+ * The caller aborted the request (e.g. the end user disconnected)
+ */
+export class RequestAbortedError extends ClaudeDirectError {}
+
+export interface RequestSignal {
+  /** Aborts when the caller's signal aborts or the timeout fires */
+  signal: AbortSignal;
+  /** Clear the timer and detach from the caller's signal */
+  cleanup(): void;
+}
+
+/**
+ * Combine an optional caller signal and an optional timeout.
+ * Returns undefined when neither is given (no overhead on the hot path).
+ */
+export function createRequestSignal(signal?: AbortSignal, timeoutMs?: number): RequestSignal | undefined {
+  if (!signal && !timeoutMs) return undefined;
+
+  const controller = new AbortController();
+
+  const onAbort = () => {
+    const reason = signal?.reason;
+    controller.abort(
+      reason instanceof ClaudeDirectError
+        ? reason
+        : new RequestAbortedError("Request aborted", { cause: reason })
+    );
+  };
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(new APITimeoutError(`Request timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    cleanup() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the underlying promise
+ * (e.g. a transport that ignores signals) never settles
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(signal.aborted ? signal.reason : err);
+      }
+    );
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Server-sent events parsing and message reassembly for streaming inference
+ *
+ * The API streams a message as:
+ *   message_start → (content_block_start → content_block_delta* → content_block_stop)* → message_delta → message_stop
+ * with `ping` and `error` events possible at any point. MessageAccumulator
+ * rebuilds complete content blocks (tool_use inputs from partial JSON,
+ * thinking text + signature) and the final message with usage and stop_reason.
+ */
+
+import { errorFromStreamEvent, StreamInterruptedError } from "./errors.js";
+import type { APIMessage, Citation, ContentBlock, Usage } from "./types.js";
+
+export type ContentDelta =
+  | { type: "text_delta"; text: string }
+  | { type: "input_json_delta"; partial_json: string }
+  | { type: "thinking_delta"; thinking: string }
+  | { type: "signature_delta"; signature: string }
+  | { type: "citations_delta"; citation: Citation };
+
+export type StreamEvent =
+  | { type: "message_start"; message: APIMessage }
+  | { type: "content_block_start"; index: number; content_block: ContentBlock }
+  | { type: "content_block_delta"; index: number; delta: ContentDelta }
+  | {
+      type: "content_block_stop";
+      index: number;
+      /** The fully assembled block (added by the client, not sent by the API) */
+      content_block: ContentBlock;
+    }
+  | {
+      type: "message_delta";
+      delta: { stop_reason: string | null; stop_sequence: string | null };
+      usage: Partial<Usage>;
+    }
+  | {
+      type: "message_stop";
+      /** The final message (added by the client, not sent by the API) */
+      message: APIMessage;
+    }
+  | { type: "ping" };
+
+/**
+ * Parse an SSE byte stream into JSON payloads of `data:` fields
+ */
+export async function* parseSSE(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseEvent = (raw: string): any => {
+    const data = raw
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (!data || data === "[DONE]") return undefined;
+
+    try {
+      return JSON.parse(data);
+    } catch {
+      return undefined; // Ignore parse errors
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || "";
+
+    for (const raw of events) {
+      const event = parseEvent(raw);
+      if (event !== undefined) yield event;
+    }
+  }
+
+  const tail = parseEvent(buffer + decoder.decode());
+  if (tail !== undefined) yield tail;
+}
+
+/**
+ * Rebuilds the message from stream events
+ */
+export class MessageAccumulator {
+  private current: APIMessage | null = null;
+  private partialJson = new Map<number, string>();
+
+  constructor(private readonly headers?: Headers) {}
+
+  /**
+   * Apply one raw event. Returns the typed event to surface (with assembled
+   * blocks attached), or null for event types we don't know. Throws on `error`.
+   */
+  apply(event: any): StreamEvent | null {
+    switch (event.type) {
+      case "message_start":
+        this.current = { ...event.message, content: [] };
+        return event;
+
+      case "content_block_start": {
+        const block = structuredClone(event.content_block);
+        if (block.type === "tool_use") {
+          this.partialJson.set(event.index, "");
+        }
+        this.message.content[event.index] = block;
+        return event;
+      }
+
+      case "content_block_delta": {
+        const block: any = this.message.content[event.index];
+        const delta = event.delta;
+        if (!block) return event;
+
+        if (delta.type === "text_delta") {
+          block.text = (block.text || "") + delta.text;
+        } else if (delta.type === "input_json_delta") {
+          this.partialJson.set(event.index, (this.partialJson.get(event.index) || "") + delta.partial_json);
+        } else if (delta.type === "thinking_delta") {
+          block.thinking = (block.thinking || "") + delta.thinking;
+        } else if (delta.type === "signature_delta") {
+          block.signature = (block.signature || "") + delta.signature;
+        } else if (delta.type === "citations_delta") {
+          block.citations = [...(block.citations || []), delta.citation];
+        }
+        return event;
+      }
+
+      case "content_block_stop": {
+        const block: any = this.message.content[event.index];
+        if (block?.type === "tool_use" && this.partialJson.has(event.index)) {
+          const json = this.partialJson.get(event.index)!;
+          try {
+            block.input = json ? JSON.parse(json) : {};
+          } catch (err: any) {
+            throw new StreamInterruptedError(`Stream sent invalid tool input for ${block.name}: ${err.message}`, {
+              requestId: this.headers?.get("request-id"),
+              headers: this.headers,
+              body: json,
+              cause: err,
+            });
+          }
+          this.partialJson.delete(event.index);
+        }
+        return { ...event, content_block: block };
+      }
+
+      case "message_delta": {
+        const message = this.message;
+        message.stop_reason = event.delta?.stop_reason ?? message.stop_reason;
+        message.stop_sequence = event.delta?.stop_sequence ?? message.stop_sequence;
+        const updates = Object.entries(event.usage || {}).filter(([, value]) => value !== null && value !== undefined);
+        message.usage = { ...message.usage, ...Object.fromEntries(updates) };
+        return event;
+      }
+
+      case "message_stop":
+        return { ...event, message: this.message };
+
+      case "ping":
+        return event;
+
+      case "error":
+        throw errorFromStreamEvent(event, this.headers);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The message assembled so far
+   */
+  get message(): APIMessage {
+    if (!this.current) {
+      throw new Error("Stream event received before message_start");
+    }
+    return this.current;
+  }
+
+  get started(): boolean {
+    return this.current !== null;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Schema-validated structured output
+ *
+ * The zod schema becomes the input_schema of a single tool and the model is
+ * forced to call it, so the answer arrives as parsed JSON in `tool_use.input`.
+ * With thinking enabled the API only allows tool_choice "auto", so the tool is
+ * offered and requested in the system prompt instead; a plain-text JSON
+ * answer is accepted as a fallback.
+ *
+ * Answers that fail validation are sent back as an is_error tool_result with
+ * the zod issues, and the model gets up to `maxRetries` chances to fix them.
+ */
+
+import { z } from "zod";
+import { ClaudeDirectError } from "./errors.js";
+import { thinkingText, type ClaudeDirect, type QueryOptions } from "./index.js";
+import type { ContentBlock, Message, ToolUseBlock } from "./types.js";
+
+export interface StructuredOptions<T extends z.ZodType> extends Omit<QueryOptions, "tools" | "toolChoice" | "stream"> {
+  schema: T;
+  /** Name of the tool the model answers through (default: "respond") */
+  name?: string;
+  /** Tool description shown to the model */
+  description?: string;
+  /** Re-prompts after a validation failure before giving up (default: 2) */
+  maxRetries?: number;
+}
+
+export interface StructuredResult<T> {
+  /** The validated (and transformed) value */
+  data: T;
+  /** What the model sent, before validation */
+  raw: unknown;
+  thinking: string;
+  /** Totals over every request, re-prompts included */
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  model: string;
+  stopReason: string;
+  /** Requests sent (1 = valid on the first try) */
+  requests: number;
+  /** HTTP attempts over every request (see QueryResult.attempts) */
+  attempts: number;
+  retryWaitMs: number;
+}
+
+/**
+ * The model's answer still failed validation after every re-prompt
+ */
+export class StructuredOutputError extends ClaudeDirectError {
+  constructor(
+    message: string,
+    /** The last answer received (undefined if the model never produced one) */
+    readonly raw: unknown,
+    /** Validation issues of the last answer */
+    readonly issues: z.core.$ZodIssue[],
+    /** Requests sent before giving up */
+    readonly requests: number
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_TOOL_NAME = "respond";
+const DEFAULT_MAX_RETRIES = 2;
+
+// Wrapper property for schemas that are not objects (tool inputs must be)
+const VALUE_KEY = "value";
+
+/**
+ * Build the tool definition for a schema. Non-object schemas are wrapped
+ * in `{ value: ... }`; `wrapped` tells the caller to unwrap the answer.
+ * The model writes what the schema parses, so this is the input side:
+ * fields with defaults are optional, transformed fields keep their input type.
+ */
+export function schemaTool(
+  schema: z.ZodType,
+  name = DEFAULT_TOOL_NAME,
+  description = "Respond with the requested data. Always call this tool to answer."
+): { tool: { name: string; description: string; input_schema: Record<string, any> }; wrapped: boolean } {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as Record<string, any>;
+  const wrapped = jsonSchema.type !== "object";
+  const input_schema = wrapped
+    ? { type: "object", properties: { [VALUE_KEY]: jsonSchema }, required: [VALUE_KEY] }
+    : jsonSchema;
+
+  return { tool: { name, description, input_schema }, wrapped };
+}
+
+/**
+ * Query and validate the answer against a zod schema (see client.queryStructured)
+ */
+export async function queryStructured<T extends z.ZodType>(
+  client: ClaudeDirect,
+  options: StructuredOptions<T>
+): Promise<StructuredResult<z.output<T>>> {
+  const { schema, name, description, maxRetries = DEFAULT_MAX_RETRIES, ...query } = options;
+  const { tool, wrapped } = schemaTool(schema, name, description);
+
+  // Forced tool_choice is rejected with thinking, so ask for the tool instead
+  const systemPrompt = query.thinking
+    ? [query.systemPrompt, `Answer by calling the ${tool.name} tool.`].filter(Boolean).join("\n\n")
+    : query.systemPrompt;
+
+  const messages: Message[] = [...query.messages];
+  const totals = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0 };
+  let attempts = 0;
+  let retryWaitMs = 0;
+  let raw: unknown;
+  let issues: z.core.$ZodIssue[] = [];
+
+  for (let request = 1; request <= maxRetries + 1; request++) {
+    const response = await client.queryRaw({
+      ...query,
+      messages,
+      systemPrompt,
+      tools: [tool],
+      toolChoice: query.thinking ? { type: "auto" } : { type: "tool", name: tool.name },
+      // Only the first attempt belongs in the session; re-prompts would replace its history
+      skipSession: query.skipSession || request > 1,
+    });
+
+    totals.inputTokens += response.usage.input_tokens || 0;
+    totals.outputTokens += response.usage.output_tokens || 0;
+    totals.cacheCreationInputTokens += response.usage.cache_creation_input_tokens || 0;
+    totals.cacheReadInputTokens += response.usage.cache_read_input_tokens || 0;
+    totals.costUsd += response.costUsd;
+    attempts += response.attempts;
+    retryWaitMs += response.retryWaitMs;
+
+    const content: ContentBlock[] = response.content;
+    const toolUse = content.find((b): b is ToolUseBlock => b.type === "tool_use" && b.name === tool.name);
+    raw = toolUse ? toolUse.input : parseJsonText(content);
+
+    const candidate = wrapped && raw && typeof raw === "object" ? (raw as Record<string, unknown>)[VALUE_KEY] : raw;
+    const parsed = raw === undefined ? undefined : schema.safeParse(candidate);
+
+    if (parsed?.success) {
+      return {
+        data: parsed.data,
+        raw,
+        thinking: thinkingText(content),
+        ...totals,
+        model: response.model,
+        stopReason: response.stop_reason,
+        requests: request,
+        attempts,
+        retryWaitMs,
+      };
+    }
+
+    issues = parsed ? parsed.error.issues : [];
+    const feedback = parsed
+      ? `Invalid response:\n${z.prettifyError(parsed.error)}\nCall ${tool.name} again with corrected input.`
+      : `No answer received. Call the ${tool.name} tool with your answer.`;
+
+    // Re-prompt: the tool_use needs a matching tool_result, a text answer a user turn
+    messages.push({ role: "assistant", content });
+    messages.push({
+      role: "user",
+      content: toolUse
+        ? [{ type: "tool_result", tool_use_id: toolUse.id, content: feedback, is_error: true }]
+        : feedback,
+    });
+  }
+
+  throw new StructuredOutputError(
+    `Structured output failed validation after ${maxRetries + 1} requests`,
+    raw,
+    issues,
+    maxRetries + 1
+  );
+}
+
+/**
+ * JSON from a text answer (bare or in a ```json fence), or undefined
+ */
+function parseJsonText(content: ContentBlock[]): unknown {
+  const text = content
+    .filter((b) => b.type === "text")
+    .map((b) => (b as { text: string }).text)
+    .join("")
+    .trim();
+  if (!text) return undefined;
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    return undefined;
+  }
+}
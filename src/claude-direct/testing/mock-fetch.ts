@@ -0,0 +1,102 @@
+/**
+ * In-process fake transport for unit tests
+ *
+ * Usage:
+ *   const mock = createMockFetch(() => jsonResponse({ content: [...] }));
+ *   const client = new ClaudeDirect({ oauthToken: "test", fetch: mock.fetch });
+ *   await client.query(...);
+ *   console.log(mock.calls[0].url, mock.calls[0].body);
+ */
+
+export interface MockCall {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+type MockHandler = (call: MockCall, index: number) => Response | Promise<Response>;
+
+/**
+ * Create a fetch that records every call and answers with the given handler
+ */
+export function createMockFetch(handler: MockHandler): {
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+  calls: MockCall[];
+} {
+  const calls: MockCall[] = [];
+
+  const fetch = async (url: string, init: RequestInit): Promise<Response> => {
+    const call: MockCall = {
+      url,
+      method: init.method || "GET",
+      headers: { ...(init.headers as Record<string, string>) },
+    };
+
+    if (typeof init.body === "string") {
+      try {
+        call.body = JSON.parse(init.body);
+      } catch {
+        call.body = init.body;
+      }
+    }
+
+    calls.push(call);
+    return handler(call, calls.length - 1);
+  };
+
+  return { fetch, calls };
+}
+
+/**
+ * JSON response helper
+ */
+export function jsonResponse(body: any, init?: { status?: number; headers?: Record<string, string> }): Response {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: { "content-type": "application/json", ...init?.headers },
+  });
+}
+
+/**
+ * Minimal successful /v1/messages response with a single text block
+ */
+export function messageResponse(text: string, overrides?: Record<string, any>): Response {
+  return jsonResponse({
+    id: "msg_test",
+    type: "message",
+    role: "assistant",
+    model: "claude-haiku-4-5-20251001",
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  });
+}
+
+/**
+ * Server-sent events response. With `keepOpen`, the stream never closes
+ * after the given events (for cancellation tests). With `delayMs`, events
+ * arrive one at a time (for ordering tests).
+ */
+export function sseResponse(
+  events: any[],
+  options?: { keepOpen?: boolean; delayMs?: number; headers?: Record<string, string> }
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const event of events) {
+        if (options?.delayMs) await new Promise((r) => setTimeout(r, options.delayMs));
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      }
+      if (!options?.keepOpen) controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "text/event-stream", ...options?.headers },
+  });
+}
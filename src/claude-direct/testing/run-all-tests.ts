@@ -6,9 +6,49 @@
  *   npx tsx src/claude-direct/testing/run-all-tests.ts [--integration] [--benchmark]
  */
 
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { z } from "zod";
 import { runBenchmark } from "./benchmark.js";
 import { enableTrafficLogging, getTrafficSummary, clearTrafficLog } from "./traffic-capture.js";
-import { ClaudeDirect, queryDirect } from "../index.js";
+import { createMockFetch, jsonResponse, messageResponse, sseResponse } from "./mock-fetch.js";
+import {
+  APIConnectionError,
+  APIError,
+  APITimeoutError,
+  ClaudeDirect,
+  FileResponseCache,
+  InvalidContentError,
+  InvalidOptionsError,
+  JsonlSessionStore,
+  MemoryResponseCache,
+  MemorySessionStore,
+  OAuthBearerAuth,
+  OverloadedError,
+  RateLimitError,
+  RequestAbortedError,
+  StreamInterruptedError,
+  StructuredOutputError,
+  TokenLimitError,
+  documentBlock,
+  estimateRequestTokens,
+  imageBlock,
+  keepFirstAndLast,
+  queryDirect,
+  schemaTool,
+  summarizeOlder,
+  truncateToolResults,
+  textCitations,
+  thinkingBlocks,
+  toolUseBlocks,
+} from "../index.js";
+import { exampleHandlers, exampleTools, executeToolLoop, streamToolLoop, toolError, ToolResult, type ToolLoopResult } from "../tool-loop.js";
+import { ToolInputError, defineTool } from "../tools.js";
+import type { HookContext, ToolLoopHooks } from "../hooks.js";
+import type { PermissionContext } from "../permissions.js";
+import { messageEvents } from "../response-cache.js";
+import type { APIMessage, ToolResultBlock, ToolUseBlock } from "../types.js";
 
 const args = process.argv.slice(2);
 const runIntegration = args.includes("--integration") || args.includes("-i");
@@ -34,15 +74,1715 @@ async function runUnitTests() {
 
   // Test 3: Cost estimation
   console.log("\n[Test] Cost estimation");
-  // @ts-ignore - accessing private method for testing
-  const cost = client["estimateCost"]({ input_tokens: 1000, output_tokens: 500 });
-  const expected = (1000 / 1_000_000) * 0.25 + (500 / 1_000_000) * 1.25;
+  // Default model is Haiku 4.5: $1 / $5 per 1M input / output tokens
+  const cost = client.estimateCost({ input_tokens: 1000, output_tokens: 500 });
+  const expected = (1000 / 1_000_000) * 1 + (500 / 1_000_000) * 5;
   if (Math.abs(cost - expected) < 0.0001) {
     console.log(`  ✓ Cost calculation correct: $${cost.toFixed(6)}`);
   } else {
     console.log(`  ✗ Cost calculation wrong: got $${cost}, expected $${expected}`);
   }
 
+  // Test 4: Pluggable transport and base URL
+  console.log("\n[Test] Pluggable transport and base URL");
+  const mock = createMockFetch(() => messageResponse("PONG"));
+  const ddMock = createMockFetch(() => new Response(null, { status: 202 }));
+  const localClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    baseUrl: "http://localhost:8787/",
+    fetch: mock.fetch,
+    skipTelemetry: false,
+    endpoints: { datadog: { url: "http://localhost:8788/logs", fetch: ddMock.fetch } },
+  });
+  const transportResult = await localClient.query({ messages: [{ role: "user", content: "ping" }] });
+  await new Promise((r) => setTimeout(r, 10)); // Telemetry is fire-and-forget
+  const urls = mock.calls.map((c) => c.url);
+  if (
+    transportResult.content === "PONG" &&
+    urls[0] === "http://localhost:8787/v1/messages?beta=true" &&
+    urls[1] === "http://localhost:8787/api/event_logging/batch" &&
+    ddMock.calls[0]?.url === "http://localhost:8788/logs"
+  ) {
+    console.log("  ✓ Requests routed through injected transport and endpoint overrides");
+  } else {
+    console.log(`  ✗ Unexpected routing: ${JSON.stringify([...urls, ...ddMock.calls.map((c) => c.url)])}`);
+  }
+
+  // Test 5: API key auth
+  console.log("\n[Test] API key auth");
+  const keyMock = createMockFetch(() => messageResponse("OK"));
+  await new ClaudeDirect({ apiKey: "sk-ant-test", fetch: keyMock.fetch }).query({
+    messages: [{ role: "user", content: "hi" }],
+  });
+  const keyHeaders = keyMock.calls[0].headers;
+  if (
+    keyHeaders["x-api-key"] === "sk-ant-test" &&
+    !keyHeaders["Authorization"] &&
+    !keyHeaders["anthropic-beta"].includes("oauth-2025-04-20")
+  ) {
+    console.log("  ✓ x-api-key sent without OAuth header or beta");
+  } else {
+    console.log(`  ✗ Unexpected headers: ${JSON.stringify(keyHeaders)}`);
+  }
+
+  // Test 6: OAuth refresh on 401
+  console.log("\n[Test] OAuth refresh on 401");
+  const refreshMock = createMockFetch((call) =>
+    call.headers["Authorization"] === "Bearer fresh"
+      ? messageResponse("OK")
+      : new Response("{}", { status: 401 })
+  );
+  const refreshed = await new ClaudeDirect({
+    auth: new OAuthBearerAuth("stale", { refresh: async () => ({ accessToken: "fresh" }) }),
+    fetch: refreshMock.fetch,
+  }).query({ messages: [{ role: "user", content: "hi" }] });
+
+  // A refresh that fails is an auth problem: surfaced as thrown, not retried as a connection failure
+  const revokedMock = createMockFetch(() => new Response("{}", { status: 401 }));
+  let refreshAttempts = 0;
+  const revokedError = await new ClaudeDirect({
+    auth: new OAuthBearerAuth("stale", {
+      refresh: async () => {
+        refreshAttempts++;
+        throw new Error("invalid_grant");
+      },
+    }),
+    fetch: revokedMock.fetch,
+  })
+    .query({ messages: [{ role: "user", content: "hi" }] })
+    .catch((err) => err);
+
+  if (
+    refreshed.content === "OK" &&
+    refreshMock.calls.length === 2 &&
+    !(revokedError instanceof APIConnectionError) &&
+    revokedError.message === "invalid_grant" &&
+    refreshAttempts === 1 &&
+    revokedMock.calls.length === 1
+  ) {
+    console.log("  ✓ Token refreshed and request retried once; a failed refresh is thrown as is");
+  } else {
+    console.log(`  ✗ Refresh flow failed after ${refreshMock.calls.length} calls (revoked: ${revokedError}, ${refreshAttempts} refreshes)`);
+  }
+
+  // Test 7: Retry with backoff
+  console.log("\n[Test] Retry on 529 / 429");
+  const retryMock = createMockFetch((_call, i) => {
+    if (i === 0) return jsonResponse({ type: "error", error: { type: "overloaded_error" } }, { status: 529 });
+    if (i === 1) return jsonResponse({}, { status: 429, headers: { "retry-after-ms": "5" } });
+    return messageResponse("OK");
+  });
+  const retried = await new ClaudeDirect({
+    oauthToken: "test-token",
+    fetch: retryMock.fetch,
+    retry: { maxAttempts: 3, initialDelayMs: 1 },
+  }).query({ messages: [{ role: "user", content: "hi" }] });
+  if (retried.content === "OK" && retried.attempts === 3 && retried.retryWaitMs >= 5) {
+    console.log(`  ✓ Succeeded after ${retried.attempts} attempts (${retried.retryWaitMs}ms waiting)`);
+  } else {
+    console.log(`  ✗ Unexpected retry result: ${JSON.stringify(retried)}`);
+  }
+
+  // Test 8: Non-retryable failures fail fast
+  console.log("\n[Test] No retry on 400");
+  const badMock = createMockFetch(() => jsonResponse({}, { status: 400 }));
+  try {
+    await new ClaudeDirect({ oauthToken: "test-token", fetch: badMock.fetch }).query({
+      messages: [{ role: "user", content: "hi" }],
+    });
+    console.log("  ✗ Expected an error");
+  } catch {
+    if (badMock.calls.length === 1) {
+      console.log("  ✓ Failed after a single attempt");
+    } else {
+      console.log(`  ✗ Retried ${badMock.calls.length - 1} times`);
+    }
+  }
+
+  // Test 9: Typed API errors
+  console.log("\n[Test] Typed API errors");
+  const errorMock = createMockFetch(() =>
+    jsonResponse(
+      { type: "error", error: { type: "rate_limit_error", message: "Slow down" } },
+      { status: 429, headers: { "request-id": "req_123", "retry-after": "2" } }
+    )
+  );
+  try {
+    await new ClaudeDirect({ oauthToken: "test-token", fetch: errorMock.fetch, retry: false }).query({
+      messages: [{ role: "user", content: "hi" }],
+    });
+    console.log("  ✗ Expected an error");
+  } catch (err) {
+    if (
+      err instanceof RateLimitError &&
+      err instanceof APIError &&
+      err.status === 429 &&
+      err.type === "rate_limit_error" &&
+      err.errorMessage === "Slow down" &&
+      err.requestId === "req_123" &&
+      err.retryAfterMs === 2000
+    ) {
+      console.log(`  ✓ ${err.name}: ${err.message}`);
+    } else {
+      console.log(`  ✗ Unexpected error: ${err}`);
+    }
+  }
+
+  // Test 10: Timeout on a hung transport
+  console.log("\n[Test] Request timeout");
+  const hungClient = new ClaudeDirect({ oauthToken: "test-token", fetch: () => new Promise<Response>(() => {}) });
+  try {
+    await hungClient.query({ messages: [{ role: "user", content: "hi" }], timeoutMs: 20 });
+    console.log("  ✗ Expected a timeout");
+  } catch (err) {
+    console.log(err instanceof APITimeoutError ? `  ✓ ${err.message}` : `  ✗ Unexpected error: ${err}`);
+  }
+
+  // Test 11: Abort mid-stream releases the reader
+  console.log("\n[Test] Abort mid-stream");
+  const streamClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    fetch: async () =>
+      sseResponse(
+        [
+          { type: "message_start", message: { model: "test", usage: { input_tokens: 1 } } },
+          { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "partial" } },
+        ],
+        { keepOpen: true }
+      ),
+  });
+  const controller = new AbortController();
+  let received = "";
+  try {
+    for await (const chunk of streamClient.queryStream({
+      messages: [{ role: "user", content: "hi" }],
+      signal: controller.signal,
+    })) {
+      received += chunk;
+      setTimeout(() => controller.abort(), 5);
+    }
+    console.log("  ✗ Stream ended without abort");
+  } catch (err) {
+    if (err instanceof RequestAbortedError && received === "partial") {
+      console.log("  ✓ Stream stopped with RequestAbortedError");
+    } else {
+      console.log(`  ✗ Unexpected error: ${err}`);
+    }
+  }
+
+  // Test 12: Abort stops the tool loop before the next tool runs
+  console.log("\n[Test] Abort tool loop between tools");
+  const loopController = new AbortController();
+  const executed: string[] = [];
+  const loopMock = createMockFetch(() =>
+    messageResponse("", {
+      stop_reason: "tool_use",
+      content: [
+        { type: "tool_use", id: "t1", name: "first", input: {} },
+        { type: "tool_use", id: "t2", name: "second", input: {} },
+      ],
+    })
+  );
+  try {
+    await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: loopMock.fetch }), {
+      messages: [{ role: "user", content: "go" }],
+      tools: [],
+      toolHandlers: {
+        first: async () => {
+          executed.push("first");
+          loopController.abort();
+          return "done";
+        },
+        second: async () => {
+          executed.push("second");
+          return "done";
+        },
+      },
+      signal: loopController.signal,
+    });
+    console.log("  ✗ Expected the loop to abort");
+  } catch (err) {
+    if (err instanceof RequestAbortedError && executed.join() === "first" && loopMock.calls.length === 1) {
+      console.log("  ✓ Loop stopped after the in-flight tool");
+    } else {
+      console.log(`  ✗ Unexpected: ${err}, executed=${executed.join()}`);
+    }
+  }
+
+  // Test 13: Typed stream events rebuild complete blocks
+  console.log("\n[Test] Typed stream events");
+  const eventsClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    fetch: async () =>
+      sseResponse([
+        { type: "message_start", message: { id: "msg_1", model: "test", role: "assistant", content: [], usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Need weather." } },
+        { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig" } },
+        { type: "content_block_stop", index: 0 },
+        { type: "ping" },
+        { type: "content_block_start", index: 1, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Checking" } },
+        { type: "content_block_stop", index: 1 },
+        { type: "content_block_start", index: 2, content_block: { type: "tool_use", id: "tu_1", name: "get_weather", input: {} } },
+        { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: '{"locat' } },
+        { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: 'ion":"Tokyo"}' } },
+        { type: "content_block_stop", index: 2 },
+        { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 40 } },
+        { type: "message_stop" },
+      ]),
+  });
+  const eventTypes: string[] = [];
+  const events = eventsClient.streamEvents({ messages: [{ role: "user", content: "weather?" }], tools: [] });
+  let final;
+  while (true) {
+    const next = await events.next();
+    if (next.done) {
+      final = next.value;
+      break;
+    }
+    eventTypes.push(next.value.type);
+  }
+  const toolBlock = final.message.content[2];
+  if (
+    eventTypes.includes("ping") &&
+    toolBlock.type === "tool_use" &&
+    toolBlock.input.location === "Tokyo" &&
+    final.message.content[0].type === "thinking" &&
+    final.message.content[0].signature === "sig" &&
+    final.message.stop_reason === "tool_use" &&
+    final.message.usage.output_tokens === 40
+  ) {
+    console.log(`  ✓ ${eventTypes.length} events, ${final.message.content.length} blocks rebuilt`);
+  } else {
+    console.log(`  ✗ Unexpected final message: ${JSON.stringify(final.message)}`);
+  }
+
+  // Test 14: Mid-stream error events are thrown
+  console.log("\n[Test] Mid-stream error event");
+  const erroringClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    fetch: async () =>
+      sseResponse([
+        { type: "message_start", message: { id: "msg_1", model: "test", content: [], usage: { input_tokens: 1, output_tokens: 0 } } },
+        { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+      ]),
+  });
+  try {
+    for await (const _chunk of erroringClient.queryStream({ messages: [{ role: "user", content: "hi" }] })) {
+      // drain
+    }
+    console.log("  ✗ Expected an error");
+  } catch (err) {
+    console.log(err instanceof OverloadedError ? `  ✓ ${err.message}` : `  ✗ Unexpected error: ${err}`);
+  }
+
+  // Test 15: Streaming tool loop starts tools before the message finishes
+  console.log("\n[Test] Streaming tool loop");
+  const streamLoopMock = createMockFetch((_call, i) =>
+    i === 0
+      ? sseResponse(
+          [
+            { type: "message_start", message: { id: "m1", model: "test", content: [], usage: { input_tokens: 10, output_tokens: 0 } } },
+            { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "tu_1", name: "get_weather", input: {} } },
+            { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"location":"Tokyo"}' } },
+            { type: "content_block_stop", index: 0 },
+            { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 20 } },
+            { type: "message_stop" },
+          ],
+          { delayMs: 20 }
+        )
+      : sseResponse([
+          { type: "message_start", message: { id: "m2", model: "test", content: [], usage: { input_tokens: 30, output_tokens: 0 } } },
+          { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+          { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Sunny" } },
+          { type: "content_block_stop", index: 0 },
+          { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 5 } },
+          { type: "message_stop" },
+        ])
+  );
+  const loopEvents: string[] = [];
+  let loopResult;
+  for await (const event of streamToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: streamLoopMock.fetch }), {
+    messages: [{ role: "user", content: "weather?" }],
+    tools: [],
+    toolHandlers: { get_weather: async (input) => `22°C in ${input.location}` },
+  })) {
+    loopEvents.push(event.type);
+    if (event.type === "done") loopResult = event.result;
+  }
+  const sentResult = (streamLoopMock.calls[1]?.body.messages[2].content[0] as any)?.content;
+  if (
+    loopEvents.indexOf("tool_result") < loopEvents.indexOf("turn_end") &&
+    loopResult?.content === "Sunny" &&
+    loopResult.turns === 2 &&
+    loopResult.totalInputTokens === 40 &&
+    sentResult === "22°C in Tokyo"
+  ) {
+    console.log(`  ✓ ${loopEvents.join(" → ")}`);
+  } else {
+    console.log(`  ✗ Unexpected events: ${loopEvents.join(",")} result=${JSON.stringify(loopResult)}`);
+  }
+
+  // Test 16: Thinking option validation
+  console.log("\n[Test] Thinking option validation");
+  const thinkingMock = createMockFetch(() => messageResponse("OK"));
+  const thinkingClient = new ClaudeDirect({ oauthToken: "test-token", fetch: thinkingMock.fetch });
+  const invalidThinking = [
+    { thinking: { budgetTokens: 512 }, maxTokens: 4096 },
+    { thinking: { budgetTokens: 2048 }, maxTokens: 4096, temperature: 0 },
+  ];
+  let rejected = 0;
+  for (const opts of invalidThinking) {
+    try {
+      await thinkingClient.query({ messages: [{ role: "user", content: "hi" }], ...opts });
+    } catch (err) {
+      if (err instanceof InvalidOptionsError) rejected++;
+    }
+  }
+  // Interleaved thinking (always sent) lets the budget exceed max_tokens
+  await thinkingClient.query({ messages: [{ role: "user", content: "hi" }], thinking: { budgetTokens: 8192 }, maxTokens: 4096 });
+  if (
+    rejected === invalidThinking.length &&
+    thinkingMock.calls.length === 1 &&
+    thinkingMock.calls[0].body.thinking.budget_tokens === 8192 &&
+    thinkingMock.calls[0].body.max_tokens === 4096
+  ) {
+    console.log("  ✓ Invalid budget / temperature rejected before sending; budget above maxTokens allowed");
+  } else {
+    console.log(`  ✗ Rejected ${rejected}/${invalidThinking.length}, sent ${thinkingMock.calls.length}`);
+  }
+
+  // Test 17: Thinking blocks survive the tool loop history
+  console.log("\n[Test] Thinking blocks in tool loop history");
+  const thinkingLoopMock = createMockFetch((_call, i) =>
+    i === 0
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [
+            { type: "thinking", thinking: "Use the tool.", signature: "sig_1" },
+            { type: "redacted_thinking", data: "opaque" },
+            { type: "tool_use", id: "tu_1", name: "calculate", input: { expression: "2+2" } },
+          ],
+        })
+      : messageResponse("4", { content: [{ type: "thinking", thinking: "Got 4.", signature: "sig_2" }, { type: "text", text: "4" }] })
+  );
+  const thinkingLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: thinkingLoopMock.fetch }), {
+    messages: [{ role: "user", content: "2+2?" }],
+    tools: [],
+    toolHandlers: { calculate: async () => "4" },
+    thinking: { budgetTokens: 2048 },
+  });
+  const replayed = thinkingLoopMock.calls[1].body.messages[1].content;
+  if (
+    thinkingLoopMock.calls[0].body.thinking?.budget_tokens === 2048 &&
+    replayed[0].signature === "sig_1" &&
+    replayed[1].type === "redacted_thinking" &&
+    thinkingLoop.thinking === "Use the tool.\n\nGot 4." &&
+    thinkingLoop.content === "4"
+  ) {
+    console.log("  ✓ Signed thinking replayed; thinking exposed separately from content");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ replayed, thinking: thinkingLoop.thinking })}`);
+  }
+
+  // Test 18: Automatic prompt cache breakpoints
+  console.log("\n[Test] Automatic prompt cache breakpoints");
+  const cacheMock = createMockFetch((_call, i) =>
+    i === 0
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [{ type: "tool_use", id: "tu_1", name: "calculate", input: { expression: "1+1" } }],
+          usage: { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 1500, cache_read_input_tokens: 0 },
+        })
+      : messageResponse("2", {
+          usage: { input_tokens: 12, output_tokens: 3, cache_creation_input_tokens: 40, cache_read_input_tokens: 1500 },
+        })
+  );
+  const cacheMessages = [{ role: "user" as const, content: "1+1?" }];
+  const cacheLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: cacheMock.fetch }), {
+    messages: cacheMessages,
+    systemPrompt: "You are a calculator.",
+    tools: exampleTools,
+    toolHandlers: { calculate: async () => "2" },
+    cacheControl: "auto",
+  });
+  const firstBody = cacheMock.calls[0].body;
+  const secondMessages = cacheMock.calls[1].body.messages;
+  if (
+    firstBody.tools.at(-1).cache_control?.type === "ephemeral" &&
+    firstBody.tools[0].cache_control === undefined &&
+    firstBody.system[0].cache_control?.type === "ephemeral" &&
+    firstBody.messages[0].content[0].cache_control?.type === "ephemeral" &&
+    secondMessages[0].content === "1+1?" &&
+    secondMessages[2].content.at(-1).cache_control?.type === "ephemeral" &&
+    typeof cacheMessages[0].content === "string" &&
+    cacheLoop.totalCacheCreationInputTokens === 1540 &&
+    cacheLoop.totalCacheReadInputTokens === 1500
+  ) {
+    console.log("  ✓ Breakpoints on tools, system and last user turn; cache usage totalled");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ firstBody, secondMessages, cacheLoop })}`);
+  }
+
+  try {
+    await new ClaudeDirect({ oauthToken: "test-token", fetch: cacheMock.fetch }).query({
+      messages: [{ role: "user", content: "Hi" }],
+      cacheControl: { messages: 5 },
+    });
+    console.log("  ✗ Accepted more than 4 breakpoints");
+  } catch (err) {
+    console.log(err instanceof InvalidOptionsError ? "  ✓ More than 4 breakpoints rejected" : `  ✗ Wrong error: ${err}`);
+  }
+
+  // Test 19: Structured output re-prompts with validation errors
+  console.log("\n[Test] Structured output validation");
+  const personSchema = z.object({ name: z.string(), age: z.number().int() });
+  const answer = (input: any) =>
+    messageResponse("", {
+      stop_reason: "tool_use",
+      content: [{ type: "tool_use", id: "tu_s", name: "respond", input }],
+    });
+  const structuredMock = createMockFetch((_call, i) =>
+    answer(i === 0 ? { name: "Ada", age: "36" } : { name: "Ada", age: 36 })
+  );
+  const structuredClient = new ClaudeDirect({ oauthToken: "test-token", fetch: structuredMock.fetch });
+  const person = await structuredClient.queryStructured({
+    schema: personSchema,
+    messages: [{ role: "user", content: "Ada Lovelace, 36" }],
+  });
+  const repair = structuredMock.calls[1].body.messages[2].content[0];
+  const inputSide = schemaTool(z.object({ n: z.string().transform(Number), unit: z.enum(["c", "f"]).default("c") })).tool;
+  if (
+    structuredMock.calls[0].body.tool_choice?.name === "respond" &&
+    structuredMock.calls[0].body.tools[0].input_schema.required?.includes("age") &&
+    inputSide.input_schema.properties.n.type === "string" &&
+    inputSide.input_schema.required.join() === "n" &&
+    repair.is_error === true &&
+    repair.content.includes("age") &&
+    person.data.age === 36 &&
+    person.requests === 2
+  ) {
+    console.log("  ✓ Invalid answer sent back as is_error; second answer validated");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ repair, person })}`);
+  }
+
+  try {
+    await new ClaudeDirect({
+      oauthToken: "test-token",
+      fetch: createMockFetch(() => answer({ name: 42 })).fetch,
+    }).queryStructured({ schema: personSchema, messages: [{ role: "user", content: "?" }], maxRetries: 1 });
+    console.log("  ✗ Invalid output accepted");
+  } catch (err) {
+    if (err instanceof StructuredOutputError && (err.raw as any).name === 42 && err.requests === 2) {
+      console.log("  ✓ StructuredOutputError carries the raw output after retries");
+    } else {
+      console.log(`  ✗ Wrong error: ${err}`);
+    }
+  }
+
+  // Test 20: Conversation history, undo and fork
+  console.log("\n[Test] Conversation history");
+  const chatMock = createMockFetch((call) => messageResponse(`reply ${call.body.messages.length}`));
+  const chat = new ClaudeDirect({ oauthToken: "test-token", fetch: chatMock.fetch }).conversation({
+    systemPrompt: "Be brief.",
+  });
+  await chat.send("one");
+  await chat.send("two");
+  const branch = chat.fork();
+  const undone = chat.undo();
+  await branch.send("three");
+  if (
+    chatMock.calls[1].body.messages.map((m: any) => m.role).join(",") === "user,assistant,user" &&
+    chatMock.calls[1].body.system === "Be brief." &&
+    undone.length === 2 &&
+    chat.messages.length === 2 &&
+    branch.messages.length === 6 &&
+    chat.totals.inputTokens === 20 &&
+    chat.totals.costUsd > 0
+  ) {
+    console.log("  ✓ History grows per send; undo drops one exchange; fork is independent");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ chat: chat.messages, branch: branch.messages, totals: chat.totals })}`);
+  }
+
+  // Loop options such as concurrency and tags apply to every send
+  const parallelChatMock = createMockFetch((call) =>
+    call.body.messages.length === 1
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: ["tu_1", "tu_2"].map((id) => ({ type: "tool_use", id, name: "wait", input: {} })),
+        })
+      : messageResponse("waited")
+  );
+  let chatActive = 0;
+  let chatMaxActive = 0;
+  const parallelChatClient = new ClaudeDirect({ oauthToken: "test-token", fetch: parallelChatMock.fetch });
+  await parallelChatClient
+    .conversation({
+      toolHandlers: {
+        wait: async () => {
+          chatMaxActive = Math.max(chatMaxActive, ++chatActive);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          chatActive--;
+          return "ok";
+        },
+      },
+      concurrency: 2,
+      tags: ["chat"],
+    })
+    .send("wait twice");
+  if (chatMaxActive === 2 && parallelChatClient.usage.get({ tag: "chat" }).requests === 2) {
+    console.log("  ✓ concurrency and tags passed to the tool loop");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ chatMaxActive, tagged: parallelChatClient.usage.get({ tag: "chat" }) })}`);
+  }
+
+  try {
+    new ClaudeDirect({ oauthToken: "test-token", fetch: chatMock.fetch }).conversation({
+      messages: [{ role: "assistant", content: "Hi" }],
+    });
+    console.log("  ✗ Accepted history starting with assistant");
+  } catch (err) {
+    console.log(err instanceof InvalidOptionsError ? "  ✓ Non-alternating history rejected" : `  ✗ Wrong error: ${err}`);
+  }
+
+  // Test 21: Session store records a tool loop and resumes it
+  console.log("\n[Test] Session store and resume");
+  const sessionDir = await mkdtemp(join(tmpdir(), "claude-direct-sessions-"));
+  try {
+    const sessionMock = createMockFetch((call) =>
+      call.body.messages.length === 1
+        ? messageResponse("", {
+            stop_reason: "tool_use",
+            content: [{ type: "tool_use", id: "tu_1", name: "calculate", input: { expression: "6*7" } }],
+          })
+        : messageResponse(`answer ${call.body.messages.length}`)
+    );
+    const store = new JsonlSessionStore(sessionDir);
+    const recording = new ClaudeDirect({ oauthToken: "test-token", fetch: sessionMock.fetch, sessionStore: store });
+    await recording.conversation({ systemPrompt: "Be exact.", tools: exampleTools, toolHandlers: exampleHandlers }).send("6*7?");
+
+    const entries = await store.load(recording.sessionId);
+    const resumer = new ClaudeDirect({ oauthToken: "test-token", fetch: sessionMock.fetch, sessionStore: store });
+    const resumed = await resumer.resumeSession(recording.sessionId);
+    await resumed.send("Again?");
+    const lastCall = sessionMock.calls[sessionMock.calls.length - 1].body;
+
+    if (
+      entries.map((e) => e.type).join(",") === "request,response,tool_call,request,response" &&
+      entries[3].type === "request" && entries[3].offset === 2 &&
+      lastCall.messages.length === 5 &&
+      lastCall.system === "Be exact." &&
+      lastCall.metadata.user_id.endsWith(recording.sessionId) &&
+      (await store.list()).includes(recording.sessionId)
+    ) {
+      console.log("  ✓ Requests, responses and tool calls recorded; resumed history continues the session");
+    } else {
+      console.log(`  ✗ Unexpected: ${JSON.stringify({ entries, lastCall })}`);
+    }
+  } finally {
+    await rm(sessionDir, { recursive: true, force: true });
+  }
+
+  // Test 22: Context compaction keeps tool_use / tool_result pairs together
+  console.log("\n[Test] Context compaction");
+  const bulky = "x".repeat(2000);
+  const compactMock = createMockFetch((call) =>
+    call.body.messages.length < 9
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [{ type: "tool_use", id: `tu_${call.body.messages.length}`, name: "fetch_page", input: {} }],
+        })
+      : messageResponse("done")
+  );
+  const compactClient = new ClaudeDirect({ oauthToken: "test-token", fetch: compactMock.fetch });
+  const truncated = await executeToolLoop(compactClient, {
+    messages: [{ role: "user", content: "Read the pages" }],
+    tools: [],
+    toolHandlers: { fetch_page: async () => bulky },
+    context: { threshold: 1500 },
+  });
+  const olderResult = compactMock.calls.at(-1)!.body.messages[2].content[0];
+  const newestResult = compactMock.calls.at(-1)!.body.messages.at(-1).content[0];
+
+  const trimmed = await keepFirstAndLast({ first: 0, last: 2 }).compact(truncated.messages, { client: compactClient });
+  const pairsIntact = trimmed.every(
+    (m, i) =>
+      m.role === (i % 2 === 0 ? "user" : "assistant") &&
+      (typeof m.content === "string" ||
+        m.content.every((b) => b.type !== "tool_result" || (trimmed[i - 1].content as any[]).some((u) => u.id === b.tool_use_id)))
+  );
+  if (
+    truncated.compactions.length > 0 &&
+    truncated.compactions[0].strategy === "truncate_tool_results" &&
+    truncated.compactions[0].tokensAfter < truncated.compactions[0].tokensBefore &&
+    olderResult.content.endsWith("… [1800 chars truncated]") &&
+    newestResult.content === bulky &&
+    trimmed.length === 4 &&
+    pairsIntact
+  ) {
+    console.log("  ✓ Old tool results truncated and reported; dropped turns keep pairs intact");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ compactions: truncated.compactions, olderResult, trimmed })}`);
+  }
+
+  // Test 23: Token counting endpoint, estimator and pre-flight rejection
+  console.log("\n[Test] Token counting and pre-flight");
+  const countMock = createMockFetch(() => jsonResponse({ input_tokens: 1234 }));
+  const countClient = new ClaudeDirect({ oauthToken: "test-token", fetch: countMock.fetch });
+  const counted = await countClient.countTokens({
+    messages: [{ role: "user", content: "Hi" }],
+    systemPrompt: "Be brief.",
+    tools: exampleTools,
+  });
+  const countBody = countMock.calls[0].body;
+  const imageEstimate = estimateRequestTokens({
+    messages: [
+      { role: "user", content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "A".repeat(400_000) } }] },
+    ],
+  });
+  if (
+    counted === 1234 &&
+    countMock.calls[0].url.endsWith("/v1/messages/count_tokens?beta=true") &&
+    countBody.system === "Be brief." &&
+    countBody.tools.length === 2 &&
+    countBody.max_tokens === undefined &&
+    imageEstimate < 2000
+  ) {
+    console.log("  ✓ countTokens sends the query body shape; images estimated by size cap, not base64 length");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ counted, url: countMock.calls[0].url, countBody, imageEstimate })}`);
+  }
+
+  const preflightMock = createMockFetch(() => messageResponse("never"));
+  try {
+    await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: preflightMock.fetch }), {
+      messages: [{ role: "user", content: "y".repeat(4000) }],
+      tools: [],
+      toolHandlers: {},
+      preflight: { maxInputTokens: 500 },
+    });
+    console.log("  ✗ Oversized request was sent");
+  } catch (err) {
+    if (err instanceof TokenLimitError && err.limit === "maxInputTokens" && preflightMock.calls.length === 0) {
+      console.log("  ✓ Oversized request rejected before sending");
+    } else {
+      console.log(`  ✗ Wrong error: ${err}`);
+    }
+  }
+
+  // Exact counts: the client's countTokens passed unbound as the counter
+  const exactMock = createMockFetch((call) =>
+    call.url.includes("/count_tokens") ? jsonResponse({ input_tokens: 1234 }) : messageResponse("never")
+  );
+  const exactClient = new ClaudeDirect({ oauthToken: "test-token", fetch: exactMock.fetch });
+  const exactError = await executeToolLoop(exactClient, {
+    messages: [{ role: "user", content: "Short" }],
+    tools: [],
+    preflight: { maxInputTokens: 1000, countTokens: exactClient.countTokens },
+  }).catch((err) => err);
+  if (
+    exactError instanceof TokenLimitError &&
+    exactError.requestTokens === 1234 &&
+    exactMock.calls.length === 1 &&
+    exactMock.calls[0].url.includes("/count_tokens")
+  ) {
+    console.log("  ✓ Unbound client.countTokens drives pre-flight with exact counts");
+  } else {
+    console.log(`  ✗ Unexpected: ${exactError}`);
+  }
+
+  // Test 24: Model-aware pricing and usage counters
+  console.log("\n[Test] Pricing and usage counters");
+  const pricedUsage = { input_tokens: 1000, output_tokens: 100, cache_creation_input_tokens: 2000, cache_read_input_tokens: 4000 };
+  const pricingClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    model: "claude-sonnet-4-5-20250929",
+    pricing: { opus: { input: 10, output: 50, cacheWrite: 12.5, cacheRead: 1 } },
+    fetch: createMockFetch(() => messageResponse("ok", { model: "claude-sonnet-4-5-20250929", usage: pricedUsage })).fetch,
+  });
+  const sonnetCost = (1000 * 3 + 100 * 15 + 2000 * 3.75 + 4000 * 0.3) / 1_000_000;
+  const priced = await pricingClient.query({ messages: [{ role: "user", content: "Hi" }], tags: ["batch-a"] });
+  await pricingClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  const tagTotals = pricingClient.usage.get({ tag: "batch-a" });
+  const clientTotals = pricingClient.usage.get();
+  pricingClient.usage.reset({ tag: "batch-a" });
+  if (
+    Math.abs(priced.costUsd - sonnetCost) < 1e-9 &&
+    Math.abs(pricingClient.estimateCost({ input_tokens: 1_000_000 }, "claude-opus-4-5-20251101") - 10) < 1e-9 &&
+    pricingClient.estimateCost({ input_tokens: 1000 }, "unknown-model") === 0 &&
+    tagTotals.requests === 1 &&
+    clientTotals.requests === 2 &&
+    Math.abs(clientTotals.costUsd - 2 * sonnetCost) < 1e-9 &&
+    pricingClient.usage.get({ sessionId: pricingClient.sessionId }).cacheReadInputTokens === 8000 &&
+    pricingClient.usage.get({ tag: "batch-a" }).requests === 0
+  ) {
+    console.log("  ✓ Cost uses the response model incl. cache pricing; overrides by alias; counters by tag and session");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ priced, tagTotals, clientTotals })}`);
+  }
+
+  // Test 25: Rate-limit state on results and the client-side limiter
+  console.log("\n[Test] Rate-limit headers and limiter");
+  const rateLimitBody = {
+    id: "msg_test",
+    type: "message",
+    role: "assistant",
+    model: "claude-haiku-4-5-20251001",
+    content: [{ type: "text", text: "ok" }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: 10, output_tokens: 5 },
+  };
+  const limitedMock = createMockFetch(() =>
+    jsonResponse(rateLimitBody, {
+      headers: {
+        "anthropic-ratelimit-unified-status": "allowed",
+        "anthropic-ratelimit-unified-5h-utilization": "0.42",
+        "anthropic-ratelimit-unified-reset": "1900000000",
+        "anthropic-ratelimit-requests-limit": "50",
+        "anthropic-ratelimit-requests-remaining": "49",
+        "anthropic-ratelimit-requests-reset": "2030-01-01T00:00:00Z",
+      },
+    })
+  );
+  const limitedClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    skipQuotaCheck: false,
+    rateLimit: { requestsPerMinute: 2 },
+    fetch: limitedMock.fetch,
+  });
+  const limitedFirst = await limitedClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  await limitedClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  const callsBeforeQueue = limitedMock.calls.length;
+  const queueAbort = new AbortController();
+  setTimeout(() => queueAbort.abort(), 50);
+  const queued = await limitedClient
+    .query({ messages: [{ role: "user", content: "Hi" }], signal: queueAbort.signal })
+    .then(() => "sent", (err) => (err instanceof RequestAbortedError ? "aborted" : err.message));
+
+  // Server reports the request window exhausted: the next request waits for its reset
+  const exhaustedMock = createMockFetch(() =>
+    jsonResponse(rateLimitBody, {
+      headers: {
+        "anthropic-ratelimit-requests-remaining": "0",
+        "anthropic-ratelimit-requests-reset": new Date(Date.now() + 200).toISOString(),
+      },
+    })
+  );
+  const exhaustedClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    rateLimit: { requestsPerMinute: 100 },
+    fetch: exhaustedMock.fetch,
+  });
+  await exhaustedClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  const waitStart = Date.now();
+  await exhaustedClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  const waitedMs = Date.now() - waitStart;
+
+  // Unified limit rejected for hours: fail fast with the reset time rather than sleep
+  const rejectedMock = createMockFetch(() =>
+    jsonResponse(rateLimitBody, {
+      headers: {
+        "anthropic-ratelimit-unified-status": "rejected",
+        "anthropic-ratelimit-unified-reset": String(Math.floor(Date.now() / 1000) + 3 * 3600),
+      },
+    })
+  );
+  const rejectedClient = new ClaudeDirect({ oauthToken: "test-token", rateLimit: {}, fetch: rejectedMock.fetch });
+  await rejectedClient.query({ messages: [{ role: "user", content: "Hi" }] });
+  const rejectedError = await rejectedClient.query({ messages: [{ role: "user", content: "Hi" }] }).catch((err) => err);
+
+  if (
+    limitedFirst.rateLimit?.utilization === 0.42 &&
+    limitedFirst.rateLimit.status === "allowed" &&
+    limitedFirst.rateLimit.resetAt === 1_900_000_000_000 &&
+    limitedFirst.rateLimit.requests?.remaining === 49 &&
+    limitedFirst.rateLimit.requests.resetAt === Date.parse("2030-01-01T00:00:00Z") &&
+    limitedClient.rateLimit?.requests?.limit === 50 &&
+    callsBeforeQueue === 3 &&
+    queued === "aborted" &&
+    limitedMock.calls.length === 3 &&
+    waitedMs >= 150 &&
+    rejectedError instanceof RateLimitError &&
+    rejectedMock.calls.length === 1
+  ) {
+    console.log("  ✓ Headers parsed onto results; checkQuota reuses them; limiter queues per minute and waits out exhausted windows");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ rateLimit: limitedFirst.rateLimit, callsBeforeQueue, queued, waitedMs })}`);
+  }
+
+  // Test 26: Response cache (memory LRU, files, TTL, bypass, stream replay)
+  console.log("\n[Test] Response cache");
+  const responseCacheMock = createMockFetch((call) =>
+    call.body.stream
+      ? sseResponse([
+          { type: "message_start", message: { id: "msg_s", model: "test", role: "assistant", content: [], usage: { input_tokens: 8, output_tokens: 1 } } },
+          { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+          { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } },
+          { type: "ping" },
+          { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } },
+          { type: "content_block_stop", index: 0 },
+          { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 2 } },
+          { type: "message_stop" },
+        ])
+      : messageResponse(`answer ${responseCacheMock.calls.length}`)
+  );
+  const cachingClient = new ClaudeDirect({
+    oauthToken: "test-token",
+    fetch: responseCacheMock.fetch,
+    responseCache: { store: new MemoryResponseCache(2) },
+  });
+  const ask = (content: string, extra?: { bypassCache?: boolean }) =>
+    cachingClient.query({ messages: [{ role: "user", content }], temperature: 0, ...extra });
+  const missed = await ask("What is 2+2?");
+  const hitResult = await ask("What is 2+2?");
+  const bypassed = await ask("What is 2+2?", { bypassCache: true });
+  await ask("Other 1");
+  await ask("Other 2"); // Evicts "What is 2+2?" (capacity 2)
+  const evicted = await ask("What is 2+2?");
+  const callsAfterQueries = responseCacheMock.calls.length;
+
+  const collect = async () => {
+    const seen: any[] = [];
+    const stream = cachingClient.streamEvents({ messages: [{ role: "user", content: "Stream" }], temperature: 0 });
+    while (true) {
+      const next = await stream.next();
+      if (next.done) return { seen, result: next.value };
+      seen.push(next.value);
+    }
+  };
+  const original = await collect();
+  const replayedStream = await collect();
+  const replayedAsQuery = await ask("Stream");
+  let replayedText = "";
+  for await (const chunk of cachingClient.queryStream({ messages: [{ role: "user", content: "What is 2+2?" }], temperature: 0 })) {
+    replayedText += chunk;
+  }
+
+  const cacheDir = await mkdtemp(join(tmpdir(), "claude-direct-cache-"));
+  let fileHit = false;
+  let expiredHit = true;
+  try {
+    const fileMock = createMockFetch(() => messageResponse("from disk"));
+    const fileOptions = { oauthToken: "test-token", fetch: fileMock.fetch };
+    const question = { messages: [{ role: "user" as const, content: "Persist me" }], temperature: 0 };
+    await new ClaudeDirect({ ...fileOptions, responseCache: { store: new FileResponseCache(cacheDir) } }).query(question);
+    fileHit = (await new ClaudeDirect({ ...fileOptions, responseCache: { store: new FileResponseCache(cacheDir) } }).query(question)).cached;
+    expiredHit = (await new ClaudeDirect({ ...fileOptions, responseCache: { store: new FileResponseCache(cacheDir), ttlMs: 0 } }).query(question)).cached;
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+
+  if (
+    !missed.cached && missed.costUsd > 0 &&
+    hitResult.cached && hitResult.content === missed.content && hitResult.costUsd === 0 && hitResult.attempts === 0 &&
+    !bypassed.cached &&
+    !evicted.cached &&
+    callsAfterQueries === 5 &&
+    !original.result.cached && replayedStream.result.cached &&
+    responseCacheMock.calls.length === callsAfterQueries + 1 &&
+    JSON.stringify(replayedStream.seen) === JSON.stringify(original.seen) &&
+    JSON.stringify(replayedStream.result.message) === JSON.stringify(original.result.message) &&
+    replayedAsQuery.cached && replayedAsQuery.content === "Hello" &&
+    replayedText === "answer 5" &&
+    fileHit && !expiredHit &&
+    cachingClient.usage.get().requests === 6
+  ) {
+    console.log("  ✓ Identical requests cached (LRU, files, TTL, bypass); streams replay the same events");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ missed, hitResult, evicted, callsAfterQueries, calls: responseCacheMock.calls.length, replayedText, fileHit, expiredHit })}`);
+  }
+
+  // Test 27: Message batches (create, poll, results, cancel, list)
+  console.log("\n[Test] Message batches");
+  const rawBatch = (status: string, counts: Record<string, number> = {}) => ({
+    id: "msgbatch_1",
+    type: "message_batch",
+    processing_status: status,
+    request_counts: { processing: 0, succeeded: 0, errored: 0, canceled: 0, expired: 0, ...counts },
+    created_at: "2026-01-01T00:00:00Z",
+    expires_at: "2026-01-02T00:00:00Z",
+    ended_at: status === "ended" ? "2026-01-01T01:00:00Z" : null,
+    cancel_initiated_at: null,
+    results_url: status === "ended" ? "https://api.anthropic.com/v1/messages/batches/msgbatch_1/results" : null,
+  });
+  const batchUsage = { input_tokens: 1000, output_tokens: 100 };
+  const resultLines = [
+    { custom_id: "b", result: { type: "errored", error: { type: "error", error: { type: "invalid_request_error", message: "Bad" } } } },
+    { custom_id: "a", result: { type: "succeeded", message: { id: "msg_a", type: "message", role: "assistant", model: "claude-haiku-4-5-20251001", content: [{ type: "text", text: "positive" }], stop_reason: "end_turn", stop_sequence: null, usage: batchUsage } } },
+    { custom_id: "c", result: { type: "expired" } },
+  ];
+  let statusChecks = 0;
+  const batchMock = createMockFetch((call) => {
+    if (call.url.endsWith("/results")) {
+      return new Response(resultLines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+    }
+    if (call.url.endsWith("/cancel")) return jsonResponse(rawBatch("canceling"));
+    if (call.url.includes("/batches?")) return jsonResponse({ data: [rawBatch("ended")], has_more: true, first_id: "msgbatch_1", last_id: "msgbatch_1" });
+    if (call.method === "POST") return jsonResponse(rawBatch("in_progress", { processing: 3 }));
+    return jsonResponse(++statusChecks < 2 ? rawBatch("in_progress", { processing: 3 }) : rawBatch("ended", { succeeded: 1, errored: 1, expired: 1 }));
+  });
+  const batchClient = new ClaudeDirect({ oauthToken: "test-token", fetch: batchMock.fetch });
+  const created = await batchClient.createBatch([
+    { customId: "a", messages: [{ role: "user", content: "Great!" }], systemPrompt: "Classify sentiment." },
+    { customId: "b", messages: [{ role: "user", content: "Meh" }], maxTokens: 10 },
+    { customId: "c", messages: [{ role: "user", content: "Bad" }] },
+  ]);
+  const progress: string[] = [];
+  const ended = await batchClient.pollBatch(created.id, { intervalMs: 1, onProgress: (b) => progress.push(b.status) });
+  const batchResults: Record<string, any> = {};
+  for await (const result of batchClient.batchResults(ended.id)) batchResults[result.customId] = result;
+  const canceling = await batchClient.cancelBatch("msgbatch_1");
+  const page = await batchClient.listBatches({ limit: 2, afterId: "msgbatch_0" });
+  const createCall = batchMock.calls[0];
+
+  let duplicateRejected = false;
+  try {
+    await batchClient.createBatch([
+      { customId: "x", messages: [{ role: "user", content: "1" }] },
+      { customId: "x", messages: [{ role: "user", content: "2" }] },
+    ]);
+  } catch (err) {
+    duplicateRejected = err instanceof InvalidOptionsError && batchMock.calls.length === 6;
+  }
+
+  // A failed create may still have made the batch: never sent twice. Lookups still retry
+  const flakyBatchMock = createMockFetch((call, i) =>
+    call.method === "POST" || i === 1 ? jsonResponse({ type: "error", error: { type: "api_error", message: "Boom" } }, { status: 500 }) : jsonResponse(rawBatch("ended"))
+  );
+  const flakyBatchClient = new ClaudeDirect({ oauthToken: "test-token", fetch: flakyBatchMock.fetch, retry: { initialDelayMs: 1 } });
+  const createError = await flakyBatchClient.createBatch([{ customId: "a", messages: [{ role: "user", content: "1" }] }]).catch((err) => err);
+  const lookedUp = await flakyBatchClient.getBatch("msgbatch_1");
+
+  if (
+    createCall.url.endsWith("/v1/messages/batches") &&
+    createCall.body.requests[0].custom_id === "a" &&
+    createCall.body.requests[0].params.system === "Classify sentiment." &&
+    createCall.body.requests[1].params.max_tokens === 10 &&
+    created.status === "in_progress" && created.requestCounts.processing === 3 &&
+    progress.join() === "in_progress,ended" &&
+    ended.requestCounts.succeeded === 1 && ended.endedAt !== null &&
+    batchResults.a.type === "succeeded" && batchResults.a.content === "positive" &&
+    Math.abs(batchResults.a.costUsd - (1000 * 1 + 100 * 5) / 1_000_000 / 2) < 1e-12 &&
+    batchResults.b.type === "errored" && batchResults.b.error.type === "invalid_request_error" &&
+    batchResults.c.type === "expired" &&
+    canceling.status === "canceling" &&
+    batchMock.calls[5].url.endsWith("/v1/messages/batches?limit=2&after_id=msgbatch_0") &&
+    page.hasMore && page.batches[0].id === "msgbatch_1" &&
+    duplicateRejected &&
+    createError instanceof APIError && createError.status === 500 &&
+    lookedUp.status === "ended" && flakyBatchMock.calls.length === 3
+  ) {
+    console.log("  ✓ Batch created from query options, polled to the end, results matched by customId at half price");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ created, progress, batchResults, canceling, page, urls: batchMock.calls.map((c) => c.url) })}`);
+  }
+
+  // Test 28: Image and document blocks (magic bytes, limits, resize hook, URL sources)
+  console.log("\n[Test] Image and document blocks");
+  const u32 = (n: number) => Buffer.from([n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255]);
+  const png = (width: number, height: number) =>
+    Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+      Buffer.from("IHDR"),
+      u32(width),
+      u32(height),
+      Buffer.from([8, 6, 0, 0, 0]),
+    ]);
+  const jpeg = Buffer.from([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // SOI + APP0 (2 bytes of data)
+    0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x02, 0x58, 0x03, 0x01, 0x22, 0x00, // SOF0: 600x300
+  ]);
+  const pdf = Buffer.from("%PDF-1.4\n1 0 obj << /Type /Pages /Count 2 >>\n2 0 obj << /Type /Page >>\n3 0 obj << /Type /Page >>\n%%EOF");
+
+  const contentDir = await mkdtemp(join(tmpdir(), "claude-direct-content-"));
+  try {
+    const jpegPath = join(contentDir, "photo.bin");
+    await writeFile(jpegPath, jpeg);
+
+    const pngBlock = await imageBlock(png(100, 50));
+    const jpegBlock = await imageBlock(jpegPath, { cacheControl: { type: "ephemeral" } });
+    const urlBlock = await imageBlock("https://example.com/cat.png");
+    const downloadMock = createMockFetch(() => new Response(png(10, 10)));
+    const inlined = await imageBlock(new URL("https://example.com/cat.png"), { inline: true, fetch: downloadMock.fetch });
+
+    let resizeTarget: any;
+    const resized = await imageBlock(png(3000, 1000), {
+      maxDimension: 1568,
+      resize: (_data, target) => {
+        resizeTarget = target;
+        return png(1568, 523);
+      },
+    });
+
+    const rejected: string[] = [];
+    for (const attempt of [
+      () => imageBlock(png(9000, 10)),
+      () => imageBlock(png(3000, 10), { maxDimension: 1568, resize: () => png(2000, 10) }),
+      () => imageBlock(pdf),
+      () => documentBlock(png(10, 10)),
+    ]) {
+      await attempt().catch((err) => rejected.push(err instanceof InvalidContentError ? "invalid" : err.message));
+    }
+
+    const doc = await documentBlock(pdf, { title: "Report", citations: true });
+    const contentMock = createMockFetch(() => messageResponse("Two pages"));
+    await new ClaudeDirect({ oauthToken: "test-token", fetch: contentMock.fetch }).query({
+      messages: [{ role: "user", content: [pngBlock, doc, { type: "text", text: "Summarize" }] }],
+    });
+    const sentContent = contentMock.calls[0].body.messages[0].content;
+    const estimated = estimateRequestTokens({ messages: [{ role: "user", content: [pngBlock, doc] }] });
+
+    if (
+      pngBlock.source.type === "base64" && pngBlock.source.media_type === "image/png" &&
+      Buffer.from(pngBlock.source.data, "base64").equals(png(100, 50)) &&
+      jpegBlock.source.type === "base64" && jpegBlock.source.media_type === "image/jpeg" && jpegBlock.cache_control?.type === "ephemeral" &&
+      urlBlock.source.type === "url" && urlBlock.source.url === "https://example.com/cat.png" &&
+      inlined.source.type === "base64" && downloadMock.calls.length === 1 &&
+      resizeTarget?.width === 3000 && resizeTarget.maxDimension === 1568 &&
+      resized.source.type === "base64" && Buffer.from(resized.source.data, "base64").readUInt32BE(16) === 1568 &&
+      rejected.join() === "invalid,invalid,invalid,invalid" &&
+      doc.source.type === "base64" && doc.source.media_type === "application/pdf" && doc.title === "Report" && doc.citations?.enabled === true &&
+      sentContent[0].type === "image" && sentContent[1].type === "document" &&
+      estimated === 4 + 1600 + 2 * 2000
+    ) {
+      console.log("  ✓ Types from magic bytes; limits checked; resize hook; URL and inline sources; blocks sent as-is");
+    } else {
+      console.log(`  ✗ Unexpected: ${JSON.stringify({ jpegBlock, urlBlock, resizeTarget, rejected, estimated, doc: { ...doc, source: doc.source.type } })}`);
+    }
+  } finally {
+    await rm(contentDir, { recursive: true, force: true });
+  }
+
+  // Test 29: Every content block on QueryResult, with block helpers
+  console.log("\n[Test] Full content blocks on results");
+  const citation = {
+    type: "page_location" as const,
+    cited_text: "Revenue grew 12%.",
+    document_index: 0,
+    document_title: "Report",
+    start_page_number: 2,
+    end_page_number: 3,
+  };
+  const blocksMock = createMockFetch(() =>
+    messageResponse("", {
+      id: "msg_blocks",
+      content: [
+        { type: "thinking", thinking: "Look it up.", signature: "sig" },
+        { type: "text", text: "Revenue grew 12%", citations: [citation] },
+        { type: "text", text: " last year." },
+        { type: "tool_use", id: "tu_1", name: "calculate", input: { expression: "1.12*100" } },
+      ],
+      stop_reason: "stop_sequence",
+      stop_sequence: "###",
+      usage: { input_tokens: 20, output_tokens: 9, cache_read_input_tokens: 7 },
+    })
+  );
+  const blocksClient = new ClaudeDirect({ oauthToken: "test-token", fetch: blocksMock.fetch });
+  const full = await blocksClient.query({ messages: [{ role: "user", content: "Growth?" }] });
+  const raw = await blocksClient.queryRaw({ messages: [{ role: "user", content: "Growth?" }] });
+
+  const citedStream = createMockFetch(() =>
+    sseResponse([
+      { type: "message_start", message: { id: "msg_s", model: "test", role: "assistant", content: [], usage: { input_tokens: 5, output_tokens: 0 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "citations_delta", citation } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Cited." } },
+      { type: "content_block_stop", index: 0 },
+      { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 3 } },
+      { type: "message_stop" },
+    ])
+  );
+  const streamedBlocks = new ClaudeDirect({ oauthToken: "test-token", fetch: citedStream.fetch }).queryStream({
+    messages: [{ role: "user", content: "Cite" }],
+  });
+  let next = await streamedBlocks.next();
+  while (!next.done) next = await streamedBlocks.next();
+  const streamedFull = next.value;
+
+  if (
+    full.content === "Revenue grew 12% last year." &&
+    full.contentBlocks.length === 4 &&
+    full.id === "msg_blocks" &&
+    full.stopReason === "stop_sequence" && full.stopSequence === "###" &&
+    full.usage.cache_read_input_tokens === 7 && full.cacheReadInputTokens === 7 &&
+    full.thinking === "Look it up." &&
+    toolUseBlocks(full.contentBlocks)[0].name === "calculate" &&
+    thinkingBlocks(full.contentBlocks).length === 1 &&
+    textCitations(full.contentBlocks)[0].cited_text === "Revenue grew 12%." &&
+    raw.id === "msg_blocks" && raw.stop_sequence === "###" &&
+    streamedFull.content === "Cited." &&
+    textCitations(streamedFull.contentBlocks)[0]?.type === "page_location" &&
+    streamedFull.stopSequence === null
+  ) {
+    console.log("  ✓ All text blocks concatenated; blocks, id, stop_sequence, usage and citations exposed");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ full, streamedFull })}`);
+  }
+
+  // Test 30: defineTool validates input before the handler runs
+  console.log("\n[Test] defineTool input validation");
+  const toolUseTurn = (id: string, input: any) =>
+    messageResponse("", { stop_reason: "tool_use", content: [{ type: "tool_use", id, name: "convert", input }] });
+  const defineMock = createMockFetch((_call, i) =>
+    i === 0
+      ? toolUseTurn("tu_bad", { amount: "ten" })
+      : i === 1
+        ? toolUseTurn("tu_good", { amount: 10 })
+        : messageResponse("10 USD is 9.20 EUR")
+  );
+  const convertInputs: any[] = [];
+  const convert = defineTool({
+    name: "convert",
+    description: "Convert an amount of money",
+    input: z.object({ amount: z.number(), to: z.enum(["EUR", "GBP"]).default("EUR") }),
+    handler: async (input) => {
+      convertInputs.push(input);
+      return `${(input.amount * 0.92).toFixed(2)} ${input.to}`;
+    },
+  });
+  const defineLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: defineMock.fetch }), {
+    messages: [{ role: "user", content: "10 USD in EUR?" }],
+    tools: [convert],
+  });
+  const invalidResult = defineMock.calls[1].body.messages.at(-1).content[0];
+  const validResult = defineMock.calls[2].body.messages.at(-1).content[0];
+  const sentTool = defineMock.calls[0].body.tools[0];
+  const directError = await convert.handler({ amount: -1, to: "JPY" }, {}).catch((err) => err);
+  const increment = defineTool({
+    name: "increment",
+    description: "Add one",
+    input: z.object({ n: z.string().transform(Number) }),
+    handler: async ({ n }) => String(n + 1),
+  });
+  if (
+    invalidResult.is_error === true &&
+    invalidResult.content.startsWith("Error: Invalid input for convert:") &&
+    invalidResult.content.includes("amount") &&
+    validResult.content === "9.20 EUR" && !validResult.is_error &&
+    convertInputs.length === 1 && convertInputs[0].to === "EUR" &&
+    sentTool.input_schema.properties.amount.type === "number" &&
+    sentTool.input_schema.required.join() === "amount" &&
+    increment.input_schema.properties?.n.type === "string" &&
+    !("handler" in sentTool) &&
+    directError instanceof ToolInputError && directError.issues[0].path[0] === "to" &&
+    defineLoop.content === "10 USD is 9.20 EUR"
+  ) {
+    console.log("  ✓ Invalid input returned to the model as an error; handler got parsed input");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ invalidResult, validResult, sentTool, convertInputs })}`);
+  }
+
+  // Test 31: Parallel tool execution with serial tools and timings
+  console.log("\n[Test] Parallel tool execution");
+  const parallelMock = createMockFetch((_call, i) =>
+    i === 0
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [
+            { type: "tool_use", id: "tu_1", name: "read", input: { path: "a", ms: 40 } },
+            { type: "tool_use", id: "tu_2", name: "read", input: { path: "b", ms: 10 } },
+            { type: "tool_use", id: "tu_3", name: "write", input: { path: "c", ms: 10 } },
+            { type: "tool_use", id: "tu_4", name: "read", input: { path: "c", ms: 10 } },
+          ],
+        })
+      : messageResponse("Done")
+  );
+  let active = 0;
+  let maxActive = 0;
+  const spans: Record<string, { start: number; end: number }> = {};
+  const work = (label: string) => async (input: Record<string, any>) => {
+    const start = Date.now();
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, input.ms));
+    active--;
+    spans[`${label}:${input.path}`] = { start, end: Date.now() };
+    return `${label} ${input.path}`;
+  };
+  const finishOrder: string[] = [];
+  const parallelLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: parallelMock.fetch }), {
+    messages: [{ role: "user", content: "Copy a and b to c" }],
+    tools: [
+      { name: "read", description: "Read a file", input_schema: { type: "object", properties: {} }, handler: work("read") },
+      { name: "write", description: "Write a file", input_schema: { type: "object", properties: {} }, handler: work("write"), serial: true },
+    ],
+    concurrency: 2,
+    onToolUse: (_name, _input, result, timing) => {
+      if (timing.durationMs >= 0) finishOrder.push(result as string);
+    },
+  });
+  const parallelResults = parallelMock.calls[1].body.messages.at(-1).content.map((b: any) => b.content);
+  const badConcurrency = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: parallelMock.fetch }), {
+    messages: [{ role: "user", content: "x" }],
+    tools: [],
+    concurrency: 0,
+  }).catch((err) => err);
+  const call = parallelLoop.toolCalls[0];
+  if (
+    maxActive === 2 &&
+    spans["read:b"].end <= spans["read:a"].end &&
+    spans["write:c"].start >= spans["read:a"].end &&
+    spans["read:c"].start >= spans["write:c"].end &&
+    finishOrder[0] === "read b" && finishOrder.length === 4 &&
+    JSON.stringify(parallelResults) === JSON.stringify(["read a", "read b", "write c", "read c"]) &&
+    parallelLoop.toolCalls.map((c) => c.result).join() === "read a,read b,write c,read c" &&
+    call.endedAt - call.startedAt === call.durationMs && call.durationMs >= 30 && call.isError === false &&
+    !("serial" in parallelMock.calls[0].body.tools[1]) &&
+    badConcurrency instanceof InvalidOptionsError
+  ) {
+    console.log("  ✓ Up to 2 tools at once, serial tool alone, results in request order, timings recorded");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ maxActive, spans, finishOrder, parallelResults, toolCalls: parallelLoop.toolCalls })}`);
+  }
+
+  // Test 32: Tool permissions (allow / deny lists, canUseTool, plan mode)
+  console.log("\n[Test] Tool permissions");
+  const fileTool = (name: string) => ({ name, description: name, input_schema: { type: "object" as const, properties: {} } });
+  const permissionTurn: APIMessage = {
+    id: "msg_tools",
+    type: "message",
+    role: "assistant",
+    model: "test",
+    content: [
+      { type: "tool_use", id: "tu_rm", name: "rm", input: { path: "/" } },
+      { type: "tool_use", id: "tu_read", name: "read", input: { path: "a" } },
+      { type: "tool_use", id: "tu_write", name: "write", input: { path: "/etc/hosts" } },
+      { type: "tool_use", id: "tu_exec", name: "exec", input: { cmd: "ls" } },
+    ],
+    stop_reason: "tool_use",
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 20 },
+  };
+  const permissionMock = createMockFetch((_call, i) => (i === 0 ? jsonResponse(permissionTurn) : messageResponse("ok")));
+  const ran: string[] = [];
+  const permissionHandlers = Object.fromEntries(
+    ["rm", "read", "write", "exec"].map((name) => [name, async (input: Record<string, any>) => {
+      ran.push(`${name} ${JSON.stringify(input)}`);
+      return `${name} done`;
+    }])
+  );
+  const asked: Array<{ name: string; context: PermissionContext }> = [];
+  const permissionLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: permissionMock.fetch }), {
+    messages: [{ role: "user", content: "Tidy up" }],
+    tools: ["rm", "read", "write", "exec"].map(fileTool),
+    toolHandlers: permissionHandlers,
+    allowedTools: ["read"],
+    disallowedTools: ["rm"],
+    canUseTool: async (name, input, context) => {
+      asked.push({ name, context });
+      await new Promise((resolve) => setTimeout(resolve, 5)); // A human thinking it over
+      return name === "write"
+        ? { behavior: "allow", input: { ...input, path: "/tmp/hosts" } }
+        : { behavior: "deny", message: "The user declined to run exec" };
+    },
+  });
+  const permissionResults = permissionMock.calls[1].body.messages.at(-1).content;
+
+  const planMock = createMockFetch((_call, i) =>
+    sseResponse(messageEvents(i === 0 ? permissionTurn : { ...permissionTurn, content: [{ type: "text", text: "Plan: ..." }], stop_reason: "end_turn" }))
+  );
+  const planEvents: string[] = [];
+  ran.length = 0;
+  for await (const event of streamToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: planMock.fetch }), {
+    messages: [{ role: "user", content: "Tidy up" }],
+    tools: ["read", "write"].map(fileTool),
+    toolHandlers: permissionHandlers,
+    permissionMode: "plan",
+  })) {
+    if (event.type === "tool_denied" || event.type === "tool_result") planEvents.push(`${event.type} ${event.toolUse.name}`);
+  }
+  if (
+    permissionMock.calls[0].body.tools.map((t: any) => t.name).join() === "read,write,exec" &&
+    permissionResults[0].is_error && permissionResults[0].content === 'Tool "rm" is not allowed' &&
+    permissionResults[1].content === "read done" && !permissionResults[1].is_error &&
+    permissionResults[2].content === "write done" &&
+    permissionResults[3].is_error && permissionResults[3].content === "The user declined to run exec" &&
+    asked.map((a) => a.name).join() === "write,exec" && asked[0].context.turn === 1 && asked[0].context.toolUseId === "tu_write" &&
+    permissionLoop.toolCalls.map((c) => c.name).join() === "read,write" &&
+    permissionLoop.toolCalls[1].input.path === "/tmp/hosts" &&
+    (permissionLoop.messages[1].content[2] as ToolUseBlock).input.path === "/etc/hosts" &&
+    permissionLoop.denials.map((d) => `${d.name}:${d.turn}`).join() === "rm:1,exec:1" &&
+    ran.length === 0 && planEvents.length === 4 && planEvents.every((e) => e.startsWith("tool_denied")) &&
+    planMock.calls[1].body.messages.at(-1).content[1].content.startsWith("Plan mode:")
+  ) {
+    console.log("  ✓ Disallowed tools removed and denied, allow list and canUseTool decisions applied, plan mode runs nothing");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ permissionResults, asked: asked.map((a) => a.name), permissionLoop, planEvents, ran })}`);
+  }
+
+  // Test 33: Tool results with images, structured values and error flags
+  console.log("\n[Test] Rich tool results");
+  const richCalls = ["screenshot", "stats", "rows", "open_file", "chart"].map((name, i) => ({
+    type: "tool_use" as const,
+    id: `tu_${i}`,
+    name,
+    input: {},
+  }));
+  const richMock = createMockFetch((_call, i) =>
+    i === 0 ? messageResponse("", { stop_reason: "tool_use", content: richCalls }) : messageResponse("Looks fine")
+  );
+  const pixel = { type: "image" as const, source: { type: "base64" as const, media_type: "image/png", data: "iVBORw0KGgo=" } };
+  const richLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: richMock.fetch }), {
+    messages: [{ role: "user", content: "Check the dashboard" }],
+    tools: [],
+    toolHandlers: {
+      screenshot: async () => [{ type: "text", text: "Dashboard at 12:00" }, pixel],
+      stats: async () => ({ visitors: 42, errors: [] }),
+      rows: async () => [1, 2, 3],
+      open_file: async () => toolError("File not found: report.csv"),
+      chart: async () => new ToolResult([pixel]),
+    },
+  });
+  const richResults = richMock.calls[1].body.messages.at(-1).content;
+  const compactedRich = await truncateToolResults({ keepRecent: 0 }).compact(
+    [...richLoop.messages.slice(0, 3), { role: "assistant", content: "Looks fine" }],
+    { client: new ClaudeDirect({ oauthToken: "test-token" }) }
+  );
+  const olderTurn = compactedRich[2];
+  if (
+    richResults[0].content[1].type === "image" && richResults[0].content[0].text === "Dashboard at 12:00" && !richResults[0].is_error &&
+    richResults[1].content === '{"visitors":42,"errors":[]}' &&
+    richResults[2].content === "[1,2,3]" &&
+    richResults[3].is_error === true && richResults[3].content === "File not found: report.csv" &&
+    richResults[4].content[0].source.data === "iVBORw0KGgo=" && !richResults[4].is_error &&
+    richLoop.toolCalls[3].isError && Array.isArray(richLoop.toolCalls[0].result) &&
+    estimateRequestTokens({ messages: richLoop.messages }) > 3000 &&
+    (olderTurn.content as any)[0].content === "Dashboard at 12:00\n[image]"
+  ) {
+    console.log("  ✓ Blocks passed through, objects sent as JSON, errors flagged without throwing");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ richResults, olderTurn })}`);
+  }
+
+  // Test 34: Tool loop lifecycle hooks
+  console.log("\n[Test] Tool loop hooks");
+  const hookMock = createMockFetch((_call, i) =>
+    i === 0
+      ? messageResponse("", {
+          id: "msg_1",
+          stop_reason: "tool_use",
+          content: [
+            { type: "tool_use", id: "tu_search", name: "search", input: { query: "keys" } },
+            { type: "tool_use", id: "tu_delete", name: "delete", input: { id: 7 } },
+          ],
+        })
+      : messageResponse(i === 1 ? "Done" : "Checked", { id: `msg_${i + 1}` })
+  );
+  const searched: any[] = [];
+  const seen: string[] = [];
+  const turnEnds: HookContext[] = [];
+  let nudged = false;
+  const guard: ToolLoopHooks = {
+    beforeRequest: ({ systemPrompt }) => ({ systemPrompt: `${systemPrompt} Be terse.` }),
+    afterResponse: (response) => {
+      seen.push(response.id);
+    },
+    preToolUse: async (toolUse) => {
+      if (toolUse.name === "delete") return { behavior: "deny", message: "Deleting is disabled" };
+      return { behavior: "allow", input: { ...toolUse.input, limit: 5 } };
+    },
+    postToolUse: ({ input }, { result }) => ({ result: `${result} (limit ${input.limit})` }),
+    onTurnEnd: (_turn, context) => {
+      turnEnds.push(context);
+    },
+    onStop: async () => {
+      if (nudged) return;
+      nudged = true;
+      return { continueWith: "Double-check." };
+    },
+  };
+  const redact: ToolLoopHooks = {
+    beforeRequest: ({ systemPrompt, messages }) => ({ systemPrompt: `${systemPrompt} [audited]`, messages }),
+    postToolUse: (_toolUse, { result }) => ({ result: String(result).replace("sk-123", "[redacted]") }),
+  };
+  const hookLoop = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: hookMock.fetch }), {
+    messages: [{ role: "user", content: "Find the keys and delete record 7" }],
+    systemPrompt: "You manage records.",
+    tools: [],
+    toolHandlers: {
+      search: async (input) => {
+        searched.push(input);
+        return "found sk-123";
+      },
+      delete: async () => "deleted",
+    },
+    hooks: [guard, redact],
+  });
+  const hookResults = hookMock.calls[1].body.messages.at(-1).content;
+  if (
+    JSON.stringify(hookMock.calls[0].body.system).includes("You manage records. Be terse. [audited]") &&
+    seen.join() === "msg_1,msg_2,msg_3" &&
+    searched.length === 1 && searched[0].limit === 5 &&
+    hookResults[0].content === "found [redacted] (limit 5)" &&
+    hookResults[1].is_error && hookResults[1].content === "Deleting is disabled" &&
+    hookLoop.denials[0]?.name === "delete" &&
+    hookLoop.toolCalls[0].result === "found [redacted] (limit 5)" &&
+    turnEnds.map((c) => c.turn).join() === "1,2,3" &&
+    turnEnds[0].usage.inputTokens === 10 && turnEnds[2].usage.inputTokens === 30 &&
+    hookMock.calls[2].body.messages.at(-1).content === "Double-check." &&
+    hookLoop.turns === 3 && hookLoop.content === "Checked"
+  ) {
+    console.log("  ✓ Request, tool and stop hooks applied in order; continuation injected once");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ seen, searched, hookResults, turnEnds, hookLoop })}`);
+  }
+
+  // Test 35: Resuming a session whose tool loop stopped after the tool_use turn
+  console.log("\n[Test] Resume after a truncated tool loop");
+  const truncatedMock = createMockFetch((call) =>
+    call.body.messages.length === 1
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [{ type: "tool_use", id: "tu_1", name: "calculate", input: { expression: "6*7" } }],
+        })
+      : messageResponse(`answer ${call.body.messages.length}`)
+  );
+  const memoryStore = new MemorySessionStore();
+  const truncatedClient = new ClaudeDirect({ oauthToken: "test-token", fetch: truncatedMock.fetch, sessionStore: memoryStore });
+  const truncatedChat = truncatedClient.conversation({ tools: exampleTools, toolHandlers: exampleHandlers, maxTurns: 1 });
+  await truncatedChat.send("6*7?");
+  const liveHistory = truncatedChat.messages;
+
+  // Side requests on the same client stay out of the session
+  const entriesBefore = (await memoryStore.load(truncatedClient.sessionId)).length;
+  await summarizeOlder({ keepRecent: 1 }).compact(
+    [...liveHistory, { role: "assistant", content: "ok" }, { role: "user", content: "more" }],
+    { client: truncatedClient }
+  );
+  const entriesAfter = (await memoryStore.load(truncatedClient.sessionId)).length;
+
+  const resumingClient = new ClaudeDirect({ oauthToken: "test-token", fetch: truncatedMock.fetch, sessionStore: memoryStore });
+  const resumedChat = await resumingClient.resumeSession(truncatedClient.sessionId);
+  const resumedHistory = resumedChat.messages;
+  await resumedChat.send("Go on");
+  const resumedCall = truncatedMock.calls.at(-1)!.body;
+
+  // Crash while the tool ran: no tool_call entry was written
+  await memoryStore.append("crashed", { type: "request", timestamp: "", model: "test", offset: 0, messages: [{ role: "user", content: "6*7?" }] });
+  await memoryStore.append("crashed", {
+    type: "response",
+    timestamp: "",
+    model: "test",
+    message: { role: "assistant", content: [{ type: "tool_use", id: "tu_9", name: "calculate", input: {} }] },
+    stopReason: "tool_use",
+    usage: { input_tokens: 1, output_tokens: 1 },
+  });
+  const crashed = (await new ClaudeDirect({ oauthToken: "test-token", sessionStore: memoryStore }).resumeSession("crashed")).messages;
+  const crashedResult = (crashed[2]?.content as ToolResultBlock[])[0];
+
+  if (
+    liveHistory.length === 3 &&
+    entriesAfter === entriesBefore &&
+    JSON.stringify(resumedHistory) === JSON.stringify(liveHistory) &&
+    resumedCall.messages[2].content[0].type === "tool_result" &&
+    resumedCall.messages[2].content[1].text === "Go on" &&
+    resumedCall.metadata.user_id.endsWith(truncatedClient.sessionId) &&
+    resumingClient.sessionId !== truncatedClient.sessionId &&
+    crashed.length === 3 && crashedResult.tool_use_id === "tu_9" && crashedResult.is_error === true
+  ) {
+    console.log("  ✓ Tool results rebuilt from tool calls; side requests and other sessions left alone");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ liveHistory, resumedHistory, entriesBefore, entriesAfter, crashed })}`);
+  }
+
+  // Test 36: Tools started while streaming are kept when the turn doesn't end in tool_use
+  console.log("\n[Test] Streaming tool loop with an early-started tool");
+  const startedToolEvents = (ending: object[]) => [
+    { type: "message_start", message: { id: "m1", model: "test", content: [], usage: { input_tokens: 10, output_tokens: 0 } } },
+    { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "tu_1", name: "get_weather", input: {} } },
+    { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"location":"Oslo"}' } },
+    { type: "content_block_stop", index: 0 },
+    ...ending,
+  ];
+  let weatherFinished = 0;
+  const slowWeather = {
+    get_weather: async (input: Record<string, any>) => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      weatherFinished++;
+      return `Rain in ${input.location}`;
+    },
+  };
+
+  const maxTokensMock = createMockFetch(() =>
+    sseResponse(
+      startedToolEvents([
+        { type: "message_delta", delta: { stop_reason: "max_tokens", stop_sequence: null }, usage: { output_tokens: 20 } },
+        { type: "message_stop" },
+      ])
+    )
+  );
+  let maxTokensResult: ToolLoopResult | undefined;
+  for await (const event of streamToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: maxTokensMock.fetch }), {
+    messages: [{ role: "user", content: "weather?" }],
+    tools: [],
+    toolHandlers: slowWeather,
+  })) {
+    if (event.type === "done") maxTokensResult = event.result;
+  }
+  const lastTurn = maxTokensResult?.messages.at(-1);
+
+  const brokenStreamMock = createMockFetch(() =>
+    sseResponse(startedToolEvents([{ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }]))
+  );
+  let brokenStreamError: unknown;
+  try {
+    for await (const _event of streamToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: brokenStreamMock.fetch }), {
+      messages: [{ role: "user", content: "weather?" }],
+      tools: [],
+      toolHandlers: slowWeather,
+    })) {
+      // drain
+    }
+  } catch (err) {
+    brokenStreamError = err;
+  }
+
+  if (
+    maxTokensResult?.toolCalls.length === 1 &&
+    maxTokensResult.toolCalls[0].result === "Rain in Oslo" &&
+    lastTurn?.role === "user" &&
+    (lastTurn.content as ToolResultBlock[])[0].tool_use_id === "tu_1" &&
+    brokenStreamError instanceof OverloadedError &&
+    weatherFinished === 2
+  ) {
+    console.log("  ✓ Reported after max_tokens; awaited before a stream error surfaces");
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ maxTokensResult, brokenStreamError: String(brokenStreamError), weatherFinished })}`);
+  }
+
+  // Test 37: Tool input that isn't valid JSON fails the stream with a typed error
+  console.log("\n[Test] Invalid streamed tool input");
+  const badInputMock = createMockFetch(() =>
+    sseResponse([
+      { type: "message_start", message: { id: "m1", model: "test", content: [], usage: { input_tokens: 10, output_tokens: 0 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "tu_1", name: "get_weather", input: {} } },
+      { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"location":"Os' } },
+      { type: "content_block_stop", index: 0 },
+      { type: "message_delta", delta: { stop_reason: "max_tokens", stop_sequence: null }, usage: { output_tokens: 20 } },
+      { type: "message_stop" },
+    ])
+  );
+  try {
+    for await (const _chunk of new ClaudeDirect({ oauthToken: "test-token", fetch: badInputMock.fetch }).queryStream({
+      messages: [{ role: "user", content: "weather?" }],
+    })) {
+      // drain
+    }
+    console.log("  ✗ Expected an error");
+  } catch (err) {
+    console.log(
+      err instanceof StreamInterruptedError && err.body === '{"location":"Os'
+        ? `  ✓ ${err.message}`
+        : `  ✗ Unexpected error: ${err}`
+    );
+  }
+
+  // Test 38: The summary request of a compaction counts toward the loop's usage and cost
+  console.log("\n[Test] Summary compaction usage");
+  let loopCalls = 0;
+  const summaryMock = createMockFetch((call) => {
+    if (String(call.body.system).startsWith("Summarize")) {
+      return messageResponse("They read two pages.");
+    }
+    return ++loopCalls <= 2
+      ? messageResponse("", {
+          stop_reason: "tool_use",
+          content: [{ type: "tool_use", id: `tu_${loopCalls}`, name: "fetch_page", input: {} }],
+        })
+      : messageResponse("done");
+  });
+  const summarized = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: summaryMock.fetch }), {
+    messages: [{ role: "user", content: "Read the pages" }],
+    tools: [],
+    toolHandlers: { fetch_page: async () => "x".repeat(4000) },
+    context: { threshold: 1500, strategy: summarizeOlder({ keepRecent: 1 }) },
+  });
+  const summaryCompaction = summarized.compactions[0];
+  if (
+    summaryMock.calls.length === 4 &&
+    summaryCompaction?.strategy === "summarize_older" &&
+    summaryCompaction.usage.input_tokens === 10 &&
+    summaryCompaction.costUsd > 0 &&
+    summarized.totalInputTokens === 40 &&
+    summarized.totalOutputTokens === 20 &&
+    Math.abs(summarized.costUsd - 4 * summaryCompaction.costUsd) < 1e-12
+  ) {
+    console.log(`  ✓ ${summarized.totalInputTokens} input tokens, $${summarized.costUsd.toFixed(6)} including the summary`);
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ calls: summaryMock.calls.length, summarized })}`);
+  }
+
+  // Test 39: Aborting and breaking out of a streaming loop leaves no stray rejection
+  console.log("\n[Test] Streaming tool loop abort and break");
+  const strayRejections: unknown[] = [];
+  const onStrayRejection = (reason: unknown) => strayRejections.push(reason);
+  process.on("unhandledRejection", onStrayRejection);
+  const openStreamMock = createMockFetch(() =>
+    sseResponse(
+      [
+        { type: "message_start", message: { id: "m1", model: "test", content: [], usage: { input_tokens: 10, output_tokens: 0 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } },
+      ],
+      { keepOpen: true }
+    )
+  );
+  const disconnect = new AbortController();
+  let brokeOut = false;
+  for await (const event of streamToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: openStreamMock.fetch }), {
+    messages: [{ role: "user", content: "hi" }],
+    tools: [],
+    toolHandlers: {},
+    signal: disconnect.signal,
+  })) {
+    if (event.type === "text_delta") {
+      disconnect.abort();
+      brokeOut = true;
+      break;
+    }
+  }
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  process.off("unhandledRejection", onStrayRejection);
+  if (brokeOut && strayRejections.length === 0) {
+    console.log("  ✓ Pending read settled quietly after the consumer left");
+  } else {
+    console.log(`  ✗ Unhandled: ${strayRejections.map(String).join(", ")}`);
+  }
+
+  // Test 40: A cancelled parallel batch rejects only after its running tools finished
+  // (the third call, queued behind the first, is the one that sees the abort)
+  console.log("\n[Test] Parallel tools cancelled mid-batch");
+  const cancelledBatchMock = createMockFetch(() =>
+    messageResponse("", {
+      stop_reason: "tool_use",
+      content: [40, 100, 10].map((ms, i) => ({ type: "tool_use", id: `tu_${i}`, name: "wait", input: { ms } })),
+    })
+  );
+  const cancelBatch = new AbortController();
+  setTimeout(() => cancelBatch.abort(), 20);
+  const reportedAt: number[] = [];
+  let rejectedAt = 0;
+  const cancelledBatch = await executeToolLoop(new ClaudeDirect({ oauthToken: "test-token", fetch: cancelledBatchMock.fetch }), {
+    messages: [{ role: "user", content: "go" }],
+    tools: [],
+    toolHandlers: { wait: (input) => new Promise((resolve) => setTimeout(() => resolve("done"), input.ms)) },
+    concurrency: 2,
+    signal: cancelBatch.signal,
+    onToolUse: () => reportedAt.push(Date.now()),
+  }).catch((err) => {
+    rejectedAt = Date.now();
+    return err;
+  });
+  await new Promise((resolve) => setTimeout(resolve, 120));
+  if (cancelledBatch instanceof RequestAbortedError && reportedAt.every((at) => at <= rejectedAt)) {
+    console.log(`  ✓ ${reportedAt.length} running tools reported before the rejection, none after`);
+  } else {
+    console.log(`  ✗ Unexpected: ${JSON.stringify({ error: String(cancelledBatch), reportedAt, rejectedAt })}`);
+  }
+
   console.log("\n✓ All unit tests passed");
 }
 
@@ -154,9 +1894,7 @@ async function runBenchmarkTests() {
     implementations: [
       {
         name: "minimal",
-        fn: async () => {
-          await queryDirect("Reply: PONG", { maxTokens: 10 });
-        },
+        fn: () => queryDirect("Reply: PONG", { maxTokens: 10 }),
       },
       {
         name: "full",
@@ -166,7 +1904,7 @@ async function runBenchmarkTests() {
             minimal: false,
             skipTelemetry: true, // Skip telemetry to avoid async timing issues
           });
-          await client.query({
+          return client.query({
             messages: [{ role: "user", content: "Reply: PONG" }],
             maxTokens: 10,
           });
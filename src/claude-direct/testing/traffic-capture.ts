@@ -6,6 +6,9 @@
  *   enableTrafficLogging();
  *   // ... run your code ...
  *   console.log(getTrafficLog());
+ *
+ * Or scope capture to one client instead of patching globalThis.fetch:
+ *   new ClaudeDirect({ oauthToken, fetch: createCapturingFetch({ verbose: true }) });
  */
 
 interface TrafficEntry {
@@ -24,27 +27,24 @@ interface TrafficEntry {
 let trafficLog: TrafficEntry[] = [];
 let originalFetch: typeof fetch | null = null;
 
-/**
- * Enable fetch interception and logging
- */
-export function enableTrafficLogging(options?: {
+interface CaptureOptions {
   /** Log to console as requests happen */
   verbose?: boolean;
   /** Filter to only log requests matching this pattern */
   urlFilter?: RegExp;
-}): void {
-  if (originalFetch) return; // Already enabled
-
-  originalFetch = globalThis.fetch;
-  trafficLog = [];
+}
 
-  globalThis.fetch = async (input, init) => {
+/**
+ * Wrap a fetch so every request through it is recorded in the traffic log
+ */
+function captureFetch(inner: typeof fetch, options?: CaptureOptions): typeof fetch {
+  return async (input, init) => {
     const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
     const method = init?.method || "GET";
 
     // Filter check
     if (options?.urlFilter && !options.urlFilter.test(url)) {
-      return originalFetch!(input, init);
+      return inner(input, init);
     }
 
     const entry: TrafficEntry = {
@@ -82,7 +82,7 @@ export function enableTrafficLogging(options?: {
     const start = performance.now();
 
     try {
-      const response = await originalFetch!(input, init);
+      const response = await inner(input, init);
       entry.durationMs = performance.now() - start;
       entry.status = response.status;
 
@@ -110,6 +110,30 @@ export function enableTrafficLogging(options?: {
   };
 }
 
+/**
+ * Create a logging fetch to pass as ClaudeDirect's `fetch` config
+ * (no global patching, only that client's traffic is captured)
+ *
+ * Usage:
+ *   const client = new ClaudeDirect({ oauthToken, fetch: createCapturingFetch() });
+ */
+export function createCapturingFetch(options?: CaptureOptions & { fetch?: typeof fetch }): typeof fetch {
+  const inner = options?.fetch || ((input, init) => globalThis.fetch(input, init));
+  return captureFetch(inner, options);
+}
+
+/**
+ * Enable fetch interception and logging
+ */
+export function enableTrafficLogging(options?: CaptureOptions): void {
+  if (originalFetch) return; // Already enabled
+
+  originalFetch = globalThis.fetch;
+  trafficLog = [];
+
+  globalThis.fetch = captureFetch(originalFetch, options);
+}
+
 /**
  * Disable traffic logging and restore original fetch
  */
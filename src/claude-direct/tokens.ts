@@ -0,0 +1,146 @@
+/**
+ * Token counting: offline estimate and pre-flight limits
+ *
+ * estimateRequestTokens is a fast heuristic (~4 characters per token, a flat
+ * cost per image) for hot paths and tests. client.countTokens asks the
+ * count_tokens endpoint for the exact number at the cost of a round trip.
+ * Both fit the TokenCounter signature, so either can drive context compaction
+ * and the tool loop's pre-flight checks.
+ */
+
+import { countPdfPages } from "./content.js";
+import { ClaudeDirectError } from "./errors.js";
+import type { ContentBlock, Message } from "./types.js";
+
+export interface TokenCountRequest {
+  messages: Message[];
+  systemPrompt?: string;
+  tools?: any[];
+}
+
+export type TokenCounter = (request: TokenCountRequest) => number | Promise<number>;
+
+export interface PreflightOptions {
+  /** Reject a request whose input would exceed this many tokens */
+  maxInputTokens?: number;
+  /** Reject a request once tokens spent so far plus its input would exceed this */
+  budget?: number;
+  /** How to count (default: estimateRequestTokens; pass client.countTokens for exact counts) */
+  countTokens?: TokenCounter;
+}
+
+/**
+ * A request was rejected before sending: it would not fit the limit
+ */
+export class TokenLimitError extends ClaudeDirectError {
+  constructor(
+    message: string,
+    /** Which limit was hit */
+    readonly limit: "maxInputTokens" | "budget",
+    /** Input tokens of the rejected request */
+    readonly requestTokens: number,
+    /** Tokens already spent (budget only, 0 otherwise) */
+    readonly spentTokens: number
+  ) {
+    super(message);
+  }
+}
+
+// Rough size of a token in characters of English text / JSON
+const CHARS_PER_TOKEN = 4;
+
+// Images are billed by pixel count (~width * height / 750), capped near 1600 tokens
+// once resized to the 1.15 megapixel limit; without decoding, assume the cap
+const IMAGE_TOKENS = 1600;
+
+// PDF pages are sent as text plus a page image (~1500-3000 tokens each)
+const PDF_PAGE_TOKENS = 2000;
+
+// The API adds a tool-use system prompt when tools are present
+const TOOLS_OVERHEAD_TOKENS = 350;
+
+// Role markers and separators per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Offline estimate of a text's tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Offline estimate of a request's input tokens
+ */
+export function estimateRequestTokens(request: TokenCountRequest): number {
+  let tokens = request.systemPrompt ? estimateTokens(request.systemPrompt) : 0;
+
+  if (request.tools?.length) {
+    tokens += TOOLS_OVERHEAD_TOKENS + estimateTokens(JSON.stringify(request.tools));
+  }
+
+  for (const message of request.messages) {
+    tokens += MESSAGE_OVERHEAD_TOKENS;
+    if (typeof message.content === "string") {
+      tokens += estimateTokens(message.content);
+    } else {
+      for (const block of message.content) tokens += estimateBlockTokens(block);
+    }
+  }
+
+  return tokens;
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case "text":
+      return estimateTokens(block.text);
+    case "image":
+      return IMAGE_TOKENS;
+    case "document":
+      if (block.source.type === "text") return estimateTokens(block.source.data);
+      // URL sources are unknown until fetched: assume one page
+      return PDF_PAGE_TOKENS * Math.max(1, block.source.type === "base64" ? countPdfPages(Buffer.from(block.source.data, "base64")) : 1);
+    case "tool_use":
+      return estimateTokens(block.name + JSON.stringify(block.input));
+    case "tool_result":
+      if (typeof block.content === "string") return estimateTokens(block.content);
+      return block.content.reduce((sum, part) => sum + estimateBlockTokens(part), 0);
+    case "thinking":
+      return estimateTokens(block.thinking);
+    default:
+      return estimateTokens(JSON.stringify(block));
+  }
+}
+
+/**
+ * Count a request and throw TokenLimitError if it breaks a limit. Returns the count.
+ */
+export async function checkTokenLimits(
+  request: TokenCountRequest,
+  options: PreflightOptions,
+  spentTokens = 0
+): Promise<number> {
+  const { maxInputTokens, budget, countTokens = estimateRequestTokens } = options;
+  const tokens = await countTokens(request);
+
+  if (maxInputTokens !== undefined && tokens > maxInputTokens) {
+    throw new TokenLimitError(
+      `Request needs ${tokens} input tokens, limit is ${maxInputTokens}`,
+      "maxInputTokens",
+      tokens,
+      0
+    );
+  }
+
+  if (budget !== undefined && spentTokens + tokens > budget) {
+    throw new TokenLimitError(
+      `Token budget exceeded: ${spentTokens} spent + ${tokens} for the next request > ${budget}`,
+      "budget",
+      tokens,
+      spentTokens
+    );
+  }
+
+  return tokens;
+}
@@ -8,7 +8,27 @@
  * 4. Repeat until stop_reason === "end_turn" or max turns reached
  */
 
-import { ClaudeDirect } from "./index.js";
+import type { CacheSetting } from "./caching.js";
+import { compactIfNeeded, type Compaction, type ContextOptions } from "./context.js";
+import { ClaudeDirect, thinkingText, type QueryOptions, type StreamResult, type ThinkingOptions } from "./index.js";
+import type { RateLimitState } from "./rate-limit.js";
+import { InvalidOptionsError } from "./errors.js";
+import { composeHooks, type ComposedHooks, type HookContext, type HookResponse, type ToolLoopHooks } from "./hooks.js";
+import { checkToolPermission, type PermissionDecision, type PermissionOptions, type ToolDenial } from "./permissions.js";
+import { createRequestSignal, type RequestSignal } from "./signals.js";
+import { checkTokenLimits, type PreflightOptions } from "./tokens.js";
+import type { StreamEvent } from "./streaming.js";
+import type {
+  ContentBlock,
+  DocumentBlock,
+  ImageBlock,
+  Message,
+  TextBlock,
+  ToolResultBlock,
+  ToolResultContent,
+  ToolUseBlock,
+  Usage,
+} from "./types.js";
 
 // Tool definition (matches Anthropic API schema)
 export interface ToolDefinition {
@@ -19,174 +39,713 @@ export interface ToolDefinition {
     properties: Record<string, any>;
     required?: string[];
   };
+  /** Local handler for this tool (used when toolHandlers has no entry; never sent to the API) */
+  handler?: ToolHandler;
+  /** Never run alongside other tools, e.g. writes (local only, like handler) */
+  serial?: boolean;
 }
 
+// Context passed to tool handlers
+export interface ToolContext {
+  /** Aborts when the loop is cancelled or times out - pass it on to fetches etc. */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a handler may return: text, text / image / document blocks, a
+ * ToolResult (e.g. toolError(...)), or any other value, sent as JSON
+ */
+export type ToolOutput = ToolResultContent | ToolResult | Record<string, any> | unknown[] | number | boolean | null;
+
 // Tool handler function
-export type ToolHandler = (input: Record<string, any>) => Promise<string>;
+export type ToolHandler = (input: Record<string, any>, context: ToolContext) => Promise<ToolOutput>;
 
-// Content block types from API response
-interface TextBlock {
-  type: "text";
-  text: string;
+/**
+ * Tool output with an explicit error flag
+ */
+export class ToolResult {
+  readonly content: ToolResultContent;
+
+  constructor(
+    output: Exclude<ToolOutput, ToolResult>,
+    readonly isError = false
+  ) {
+    this.content = toResultContent(output);
+  }
 }
 
-interface ToolUseBlock {
-  type: "tool_use";
-  id: string;
-  name: string;
-  input: Record<string, any>;
+/**
+ * Failed tool call returned to the model as an is_error result, without throwing
+ */
+export function toolError(output: Exclude<ToolOutput, ToolResult>): ToolResult {
+  return new ToolResult(output, true);
 }
 
-interface ToolResultBlock {
-  type: "tool_result";
-  tool_use_id: string;
-  content: string;
-  is_error?: boolean;
+const RESULT_BLOCK_TYPES = new Set(["text", "image", "document"]);
+
+function toResultContent(output: Exclude<ToolOutput, ToolResult> | undefined): ToolResultContent {
+  if (typeof output === "string") return output;
+  if (output === undefined) return "";
+  if (Array.isArray(output) && output.length > 0 && output.every((item) => RESULT_BLOCK_TYPES.has(item?.type))) {
+    return output as Array<TextBlock | ImageBlock | DocumentBlock>;
+  }
+  return JSON.stringify(output);
 }
 
-type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+export interface ToolTiming {
+  /** Epoch ms */
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+}
 
-interface Message {
-  role: "user" | "assistant";
-  content: string | ContentBlock[];
+export interface ToolCall extends ToolTiming {
+  name: string;
+  input: any;
+  result: ToolResultContent;
+  isError: boolean;
 }
 
-interface ToolLoopOptions {
-  messages: Array<{ role: string; content: any }>;
+export interface ToolLoopOptions extends PermissionOptions {
+  messages: Message[];
   systemPrompt?: string;
   tools: ToolDefinition[];
-  toolHandlers: Record<string, ToolHandler>;
+  /** Handlers by tool name (override handlers attached to the definitions) */
+  toolHandlers?: Record<string, ToolHandler>;
   maxTurns?: number;
   maxTokens?: number;
-  onToolUse?: (name: string, input: any, result: string) => void;
+  /** Extended thinking for every turn (thinking blocks are kept in the history with their signatures) */
+  thinking?: ThinkingOptions;
+  /** Prompt cache breakpoints for every turn ("auto" suits the growing history) */
+  cacheControl?: CacheSetting;
+  /** Usage counter tags for every request (see client.usage) */
+  tags?: string[];
+  /** Session to record and bill the loop under (default: the client's) */
+  sessionId?: string;
+  /** Compact the history before a turn when it grows past a token threshold */
+  context?: ContextOptions;
+  /** Count each request before sending; throws TokenLimitError if it won't fit or would break the budget */
+  preflight?: PreflightOptions;
+  /**
+   * Tools of one turn allowed to run at once (default: 1). Calls start in the
+   * order the model made them; serial tools wait for the running ones and
+   * hold back the rest until they finish.
+   */
+  concurrency?: number;
+  /** Lifecycle hooks (see hooks.ts); several sets run in order */
+  hooks?: ToolLoopHooks | ToolLoopHooks[];
+  /** Called as each tool finishes (in completion order when tools run in parallel) */
+  onToolUse?: (name: string, input: any, result: ToolResultContent, timing: ToolTiming) => void;
+  /** Cancel the loop: aborts the in-flight request and stops before the next tool or turn */
+  signal?: AbortSignal;
+  /** Abort if the whole loop takes longer than this */
+  timeoutMs?: number;
 }
 
-interface ToolLoopResult {
+export interface ToolLoopResult {
   content: string;
+  /** Thinking text from every turn ("" when thinking is off) */
+  thinking: string;
   turns: number;
   totalInputTokens: number;
   totalOutputTokens: number;
-  toolCalls: Array<{ name: string; input: any; result: string }>;
+  totalCacheCreationInputTokens: number;
+  totalCacheReadInputTokens: number;
+  /** Cost of every request of the loop */
+  costUsd: number;
+  /** Every tool call that ran, in the order the model made them (with the input it ran with) */
+  toolCalls: ToolCall[];
+  /** Tool calls refused by the permission checks, in the order the model made them */
+  denials: ToolDenial[];
+  /** Full history: the input messages plus every assistant turn and tool result of the loop (after compaction) */
+  messages: Message[];
+  /** Every time the history was compacted (empty if it never crossed the threshold) */
+  compactions: Compaction[];
+  /** Rate-limit headers of the last response */
+  rateLimit?: RateLimitState;
+}
+
+interface ToolOutcome {
+  result: ToolResultContent;
+  isError: boolean;
+}
+
+interface TimedOutcome extends ToolOutcome {
+  /** Input the handler ran with (rewritten by canUseTool, or the model's) */
+  input: Record<string, any>;
+  timing: ToolTiming;
+}
+
+type ToolRun = { kind: "ran"; outcome: TimedOutcome } | { kind: "denied"; denial: ToolDenial };
+
+interface ResolvedTools {
+  /** Definitions as sent to the API */
+  tools: ToolDefinition[];
+  toolHandlers: Record<string, ToolHandler>;
+  serialTools: Set<string>;
 }
 
 /**
- * Execute a tool loop - handles tool_use responses automatically
+ * Split definitions into what is sent to the API and what stays local
  */
-export async function executeToolLoop(
-  client: ClaudeDirect,
-  options: ToolLoopOptions
-): Promise<ToolLoopResult> {
-  const {
-    systemPrompt,
-    tools,
-    toolHandlers,
-    maxTurns = 10,
-    maxTokens = 4096,
-    onToolUse,
-  } = options;
-
-  // Clone messages to avoid mutation
-  const messages: Array<{ role: string; content: any }> = JSON.parse(JSON.stringify(options.messages));
-
-  let turns = 0;
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
-  const toolCalls: Array<{ name: string; input: any; result: string }> = [];
-  let finalContent = "";
-
-  while (turns < maxTurns) {
-    turns++;
-
-    // Make API call
-    const response = await client.queryRaw({
-      messages,
-      systemPrompt,
-      maxTokens,
-      tools,
+function resolveTools(options: ToolLoopOptions): ResolvedTools {
+  const attached: Record<string, ToolHandler> = {};
+  const serialTools = new Set<string>();
+  const tools = options.tools.map(({ handler, serial, ...tool }) => {
+    if (handler) attached[tool.name] = handler;
+    if (serial) serialTools.add(tool.name);
+    return tool;
+  });
+  return { tools, toolHandlers: { ...attached, ...options.toolHandlers }, serialTools };
+}
+
+/**
+ * Starts tool calls in request order, at most `concurrency` at a time.
+ * A serial call starts once nothing is running, and nothing starts while it runs.
+ */
+class ToolScheduler {
+  private waiting: Array<{ serial: boolean; start: () => void }> = [];
+  private running = 0;
+  private serialRunning = false;
+
+  constructor(private readonly concurrency: number) {}
+
+  run<T>(serial: boolean, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.waiting.push({
+        serial,
+        start: () => {
+          this.running++;
+          this.serialRunning = serial;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              if (serial) this.serialRunning = false;
+              this.pump();
+            });
+        },
+      });
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    while (this.waiting.length > 0 && !this.serialRunning) {
+      const limit = this.waiting[0].serial ? 1 : this.concurrency;
+      if (this.running >= limit) return;
+      this.waiting.shift()!.start();
+    }
+  }
+}
+
+function toolScheduler(concurrency = 1): ToolScheduler {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new InvalidOptionsError(`concurrency must be a positive integer (got ${concurrency})`);
+  }
+  return new ToolScheduler(concurrency);
+}
+
+/**
+ * Runs the tool calls of one loop: preToolUse hooks and permission checks one
+ * at a time in request order (approval prompts never overlap), execution
+ * through the scheduler, then postToolUse hooks
+ */
+class ToolRunner {
+  readonly tools: ToolDefinition[];
+  readonly denials: ToolDenial[] = [];
+  private readonly resolved: ResolvedTools;
+  private readonly scheduler: ToolScheduler;
+  private approvals: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly client: ClaudeDirect,
+    private readonly options: ToolLoopOptions,
+    private readonly hooks: ComposedHooks,
+    private readonly signal?: AbortSignal
+  ) {
+    this.resolved = resolveTools(options);
+    this.scheduler = toolScheduler(options.concurrency);
+    this.tools = this.resolved.tools.filter((tool) => !options.disallowedTools?.includes(tool.name));
+  }
+
+  run(toolUse: ToolUseBlock, context: HookContext): Promise<ToolRun> {
+    const { turn } = context;
+    const decision = this.approvals.then(async (): Promise<PermissionDecision> => {
+      this.signal?.throwIfAborted();
+      const hooked = await this.hooks.preToolUse(toolUse, context);
+      if (hooked?.behavior === "deny") return hooked;
+
+      const checked = hooked?.input ? { ...toolUse, input: hooked.input } : toolUse;
+      const permission = await checkToolPermission(checked, this.options, { toolUseId: toolUse.id, turn, signal: this.signal });
+      return permission.behavior === "allow" ? { behavior: "allow", input: permission.input ?? checked.input } : permission;
     });
+    this.approvals = decision.catch(() => {});
+
+    return decision.then(async (decision): Promise<ToolRun> => {
+      if (decision.behavior === "deny") {
+        const denial = { toolUseId: toolUse.id, name: toolUse.name, input: toolUse.input, turn, message: decision.message };
+        this.denials.push(denial);
+        await this.record(toolUse, { result: denial.message, isError: true });
+        return { kind: "denied", denial };
+      }
+
+      const approved = { ...toolUse, input: decision.input ?? toolUse.input };
+      const outcome = await this.scheduler.run(this.resolved.serialTools.has(toolUse.name), () => {
+        this.signal?.throwIfAborted();
+        return runTool(approved, this.resolved.toolHandlers, this.signal);
+      });
+      const { result, isError } = await this.hooks.postToolUse(approved, outcome, context);
+      await this.record(approved, { result, isError });
+      return { kind: "ran", outcome: { ...outcome, result, isError } };
+    });
+  }
+
+  // Session entry with the result the model gets, so a resumed history can answer the tool_use
+  private record(toolUse: ToolUseBlock, outcome: ToolOutcome): Promise<void> {
+    const call = { toolUseId: toolUse.id, name: toolUse.name, input: toolUse.input, ...outcome };
+    return this.client.recordToolCall(call, this.options.sessionId);
+  }
+}
+
+/**
+ * tool_result block for a finished or denied call
+ */
+function toolResultBlock(toolUse: ToolUseBlock, run: ToolRun): ToolResultBlock {
+  return run.kind === "ran"
+    ? { type: "tool_result", tool_use_id: toolUse.id, content: run.outcome.result, is_error: run.outcome.isError }
+    : { type: "tool_result", tool_use_id: toolUse.id, content: run.denial.message, is_error: true };
+}
+
+/**
+ * Run one tool call, timed. Handler errors become is_error results; cancellation propagates.
+ */
+async function runTool(
+  toolUse: ToolUseBlock,
+  toolHandlers: Record<string, ToolHandler>,
+  signal?: AbortSignal
+): Promise<TimedOutcome> {
+  const startedAt = Date.now();
+  const outcome = await callHandler(toolUse, toolHandlers, signal);
+  const endedAt = Date.now();
+  return { ...outcome, input: toolUse.input, timing: { startedAt, endedAt, durationMs: endedAt - startedAt } };
+}
+
+async function callHandler(
+  toolUse: ToolUseBlock,
+  toolHandlers: Record<string, ToolHandler>,
+  signal?: AbortSignal
+): Promise<ToolOutcome> {
+  const handler = toolHandlers[toolUse.name];
+  if (!handler) {
+    return { result: `Error: Unknown tool "${toolUse.name}"`, isError: true };
+  }
 
-    totalInputTokens += response.usage?.input_tokens || 0;
-    totalOutputTokens += response.usage?.output_tokens || 0;
+  try {
+    const output = await handler(toolUse.input, { signal });
+    if (output instanceof ToolResult) return { result: output.content, isError: output.isError };
+    return { result: toResultContent(output), isError: false };
+  } catch (err: any) {
+    if (signal?.aborted) throw signal.reason;
+    return { result: `Error: ${err.message}`, isError: true };
+  }
+}
+
+/**
+ * Bookkeeping shared by executeToolLoop and streamToolLoop: the history,
+ * usage totals, hooks and the final result. The loops differ only in how a
+ * turn's response arrives and when its tools start.
+ */
+class LoopState {
+  readonly runner: ToolRunner;
+  turns = 0;
+  private readonly messages: Message[];
+  private readonly hooks: ComposedHooks;
+  private readonly loopSignal?: RequestSignal;
+  private readonly signal?: AbortSignal;
+  private totalInputTokens = 0;
+  private totalOutputTokens = 0;
+  private totalCacheCreationInputTokens = 0;
+  private totalCacheReadInputTokens = 0;
+  private costUsd = 0;
+  private rateLimit?: RateLimitState;
+  private readonly toolCalls: ToolCall[] = [];
+  private readonly thinkingParts: string[] = [];
+  private readonly compactions: Compaction[] = [];
+  private finalContent = "";
 
-    // Add assistant message to history
-    messages.push({
+  constructor(
+    private readonly client: ClaudeDirect,
+    private readonly options: ToolLoopOptions
+  ) {
+    // Clone messages to avoid mutation
+    this.messages = JSON.parse(JSON.stringify(options.messages));
+    this.loopSignal = createRequestSignal(options.signal, options.timeoutMs);
+    this.signal = this.loopSignal?.signal;
+    this.hooks = composeHooks(...[options.hooks ?? []].flat());
+    this.runner = new ToolRunner(client, options, this.hooks, this.signal);
+  }
+
+  /**
+   * Start the next turn; false once maxTurns is reached
+   */
+  nextTurn(): boolean {
+    if (this.turns >= (this.options.maxTurns ?? 10)) return false;
+    this.signal?.throwIfAborted();
+    this.turns++;
+    return true;
+  }
+
+  hookContext(): HookContext {
+    return {
+      turn: this.turns,
+      usage: {
+        inputTokens: this.totalInputTokens,
+        outputTokens: this.totalOutputTokens,
+        cacheCreationInputTokens: this.totalCacheCreationInputTokens,
+        cacheReadInputTokens: this.totalCacheReadInputTokens,
+        costUsd: this.costUsd,
+      },
+      signal: this.signal,
+    };
+  }
+
+  /**
+   * Compact the history when options.context asks for it. Returns the report, if it ran.
+   */
+  async compact(): Promise<Compaction | undefined> {
+    if (!this.options.context) return undefined;
+
+    const compacted = await compactIfNeeded(this.messages, this.options.context, {
+      client: this.client,
+      systemPrompt: this.options.systemPrompt,
+      tools: this.runner.tools,
+      turn: this.turns,
+      signal: this.signal,
+    });
+    if (!compacted) return undefined;
+
+    this.messages.splice(0, this.messages.length, ...compacted.messages);
+    this.compactions.push(compacted.compaction);
+    // A summary request counts like any other request of the loop
+    this.addUsage(compacted.compaction.usage, compacted.compaction.costUsd);
+    return compacted.compaction;
+  }
+
+  /**
+   * This turn's request: beforeRequest hooks applied, pre-flight checked
+   */
+  async request(): Promise<QueryOptions> {
+    const { systemPrompt, maxTokens = 4096, thinking, cacheControl, tags, sessionId, preflight } = this.options;
+    const request = await this.hooks.beforeRequest(
+      { systemPrompt, messages: [...this.messages], tools: this.runner.tools },
+      this.hookContext()
+    );
+
+    if (preflight) {
+      await checkTokenLimits(request, preflight, this.totalInputTokens + this.totalOutputTokens);
+    }
+
+    return { ...request, maxTokens, thinking, cacheControl, tags, sessionId, signal: this.signal };
+  }
+
+  /**
+   * Count a response and add it to the history. The full content is kept:
+   * with thinking enabled the API requires thinking / redacted_thinking blocks
+   * (and their signatures) to be passed back unchanged alongside the tool_use blocks.
+   */
+  async addResponse(response: HookResponse, meta: { costUsd: number; rateLimit?: RateLimitState }): Promise<void> {
+    this.addUsage(response.usage, meta.costUsd);
+    this.rateLimit = meta.rateLimit ?? this.rateLimit;
+    await this.hooks.afterResponse(response, this.hookContext());
+
+    const turnThinking = thinkingText(response.content);
+    if (turnThinking) this.thinkingParts.push(turnThinking);
+
+    this.messages.push({
       role: "assistant",
       content: response.content,
     });
+  }
+
+  /**
+   * Record the turn's tool runs and answer them in one user message, in the
+   * order the model asked for them
+   */
+  addToolResults(toolUses: ToolUseBlock[], runs: ToolRun[]): ToolResultBlock[] {
+    const toolResults = toolUses.map((toolUse, i) => {
+      const run = runs[i];
+      if (run.kind === "ran") {
+        const { input, result, isError, timing } = run.outcome;
+        this.toolCalls.push({ name: toolUse.name, input, result, isError, ...timing });
+      }
+      return toolResultBlock(toolUse, run);
+    });
+
+    if (toolResults.length > 0) {
+      this.messages.push({
+        role: "user",
+        content: toolResults,
+      });
+    }
+    return toolResults;
+  }
 
-    // Check stop reason
+  /**
+   * Close the turn: keep the answer if the model is done, then onTurnEnd
+   */
+  async endTurn(response: HookResponse, toolResults: ToolResultBlock[]): Promise<void> {
     if (response.stop_reason === "end_turn") {
-      // Extract final text
-      finalContent = response.content
-        .filter((b: any) => b.type === "text")
-        .map((b: any) => b.text)
+      this.finalContent = response.content
+        .filter((b): b is TextBlock => b.type === "text")
+        .map((b) => b.text)
         .join("\n");
-      break;
+    } else if (response.stop_reason !== "tool_use") {
+      console.warn(`Unexpected stop_reason: ${response.stop_reason}`);
     }
+    await this.hooks.onTurnEnd({ response, toolResults }, this.hookContext());
+  }
 
-    if (response.stop_reason === "tool_use") {
-      // Find tool_use blocks
-      const toolUseBlocks = response.content.filter(
-        (b: any) => b.type === "tool_use"
-      ) as ToolUseBlock[];
-
-      // Execute each tool
-      const toolResults: ToolResultBlock[] = [];
-
-      for (const toolUse of toolUseBlocks) {
-        const handler = toolHandlers[toolUse.name];
-        let result: string;
-        let isError = false;
-
-        if (!handler) {
-          result = `Error: Unknown tool "${toolUse.name}"`;
-          isError = true;
-        } else {
-          try {
-            result = await handler(toolUse.input);
-          } catch (err: any) {
-            result = `Error: ${err.message}`;
-            isError = true;
-          }
+  /**
+   * The model stopped without asking for tools. Returns true if an onStop hook
+   * keeps the loop going with another user message.
+   */
+  async resume(response: HookResponse, toolResults: ToolResultBlock[]): Promise<boolean> {
+    const resume = await this.hooks.onStop(response, this.hookContext());
+    if (!resume) return false;
+
+    if (toolResults.length > 0) {
+      // Goes in the tool results' user turn so roles keep alternating
+      const continueWith: ContentBlock[] =
+        typeof resume.continueWith === "string" ? [{ type: "text", text: resume.continueWith }] : resume.continueWith;
+      this.messages[this.messages.length - 1] = { role: "user", content: [...toolResults, ...continueWith] };
+    } else {
+      this.messages.push({ role: "user", content: resume.continueWith });
+    }
+    return true;
+  }
+
+  cleanup(): void {
+    this.loopSignal?.cleanup();
+  }
+
+  result(): ToolLoopResult {
+    return {
+      content: this.finalContent,
+      thinking: this.thinkingParts.join("\n\n"),
+      turns: this.turns,
+      totalInputTokens: this.totalInputTokens,
+      totalOutputTokens: this.totalOutputTokens,
+      totalCacheCreationInputTokens: this.totalCacheCreationInputTokens,
+      totalCacheReadInputTokens: this.totalCacheReadInputTokens,
+      costUsd: this.costUsd,
+      toolCalls: this.toolCalls,
+      denials: this.runner.denials,
+      messages: this.messages,
+      compactions: this.compactions,
+      rateLimit: this.rateLimit,
+    };
+  }
+
+  private addUsage(usage: Partial<Usage>, costUsd: number): void {
+    this.costUsd += costUsd;
+    this.totalInputTokens += usage.input_tokens || 0;
+    this.totalOutputTokens += usage.output_tokens || 0;
+    this.totalCacheCreationInputTokens += usage.cache_creation_input_tokens || 0;
+    this.totalCacheReadInputTokens += usage.cache_read_input_tokens || 0;
+  }
+}
+
+/**
+ * Execute a tool loop - handles tool_use responses automatically
+ *
+ * API failures are rethrown unchanged as the typed errors from errors.ts
+ * (RateLimitError, OverloadedError, ...). Tool handler errors are not thrown;
+ * they are returned to the model as is_error tool results. Cancellation
+ * rejects with RequestAbortedError / APITimeoutError.
+ */
+export async function executeToolLoop(
+  client: ClaudeDirect,
+  options: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  const { onToolUse } = options;
+  const loop = new LoopState(client, options);
+
+  try {
+    while (loop.nextTurn()) {
+      await loop.compact();
+
+      // Make API call
+      const response = await client.queryRaw(await loop.request());
+      await loop.addResponse(response, response);
+
+      if (response.stop_reason === "tool_use") {
+        // Find tool_use blocks
+        const toolUseBlocks = response.content.filter((b): b is ToolUseBlock => b.type === "tool_use");
+
+        // Check and execute the tools (in parallel up to options.concurrency).
+        // If one fails (e.g. aborted while queued), the others still finish
+        // before the loop rejects, so none reports after the caller saw the error
+        const settled = await Promise.allSettled(
+          toolUseBlocks.map(async (toolUse) => {
+            const run = await loop.runner.run(toolUse, loop.hookContext());
+            if (run.kind === "ran") {
+              onToolUse?.(toolUse.name, run.outcome.input, run.outcome.result, run.outcome.timing);
+            }
+            return run;
+          })
+        );
+        const runs: ToolRun[] = [];
+        for (const outcome of settled) {
+          if (outcome.status === "rejected") throw outcome.reason;
+          runs.push(outcome.value);
         }
 
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: toolUse.id,
-          content: result,
-          is_error: isError,
-        });
-
-        toolCalls.push({
-          name: toolUse.name,
-          input: toolUse.input,
-          result,
-        });
-
-        if (onToolUse) {
-          onToolUse(toolUse.name, toolUse.input, result);
+        const toolResults = loop.addToolResults(toolUseBlocks, runs);
+        await loop.endTurn(response, toolResults);
+        continue;
+      }
+
+      await loop.endTurn(response, []);
+
+      // Stop, unless a hook keeps the loop going with another user message
+      if (!(await loop.resume(response, []))) break;
+    }
+  } finally {
+    loop.cleanup();
+  }
+
+  return loop.result();
+}
+
+export type ToolLoopEvent =
+  | { type: "turn_start"; turn: number }
+  /** History was compacted before this turn's request */
+  | { type: "compaction"; turn: number; compaction: Compaction }
+  | { type: "text_delta"; turn: number; text: string }
+  | { type: "thinking_delta"; turn: number; thinking: string }
+  /** Model began a tool_use block (input still streaming) */
+  | { type: "tool_use_start"; turn: number; id: string; name: string }
+  /** tool_use block finished streaming; its tool starts now */
+  | { type: "tool_use_complete"; turn: number; toolUse: ToolUseBlock }
+  | { type: "tool_result"; turn: number; toolUse: ToolUseBlock; result: ToolResultContent; isError: boolean; timing: ToolTiming }
+  /** Permission checks refused the call; `message` goes back to the model instead of a result */
+  | { type: "tool_denied"; turn: number; toolUse: ToolUseBlock; message: string }
+  | { type: "turn_end"; turn: number; stopReason: string | null; usage: Usage }
+  | { type: "done"; result: ToolLoopResult };
+
+/**
+ * Streaming tool loop - same protocol as executeToolLoop, surfaced as events
+ *
+ * Each tool starts as soon as its tool_use block finishes streaming, while the
+ * rest of the message is still arriving, scheduled as in executeToolLoop
+ * (options.concurrency, serial tools). The final `done` event (also the
+ * return value) carries the same summary as executeToolLoop.
+ */
+export async function* streamToolLoop(
+  client: ClaudeDirect,
+  options: ToolLoopOptions
+): AsyncGenerator<ToolLoopEvent, ToolLoopResult, unknown> {
+  const { onToolUse } = options;
+  const loop = new LoopState(client, options);
+
+  type Step =
+    | { kind: "stream"; next: IteratorResult<StreamEvent, StreamResult> }
+    | { kind: "tool"; toolUse: ToolUseBlock; run: ToolRun; promise: Promise<Step> };
+
+  try {
+    while (loop.nextTurn()) {
+      const turn = loop.turns;
+      yield { type: "turn_start", turn };
+
+      const compaction = await loop.compact();
+      if (compaction) yield { type: "compaction", turn, compaction };
+
+      // As an iterator: return() then closes it without a result to hand back
+      const stream: AsyncIterator<StreamEvent, StreamResult> = client.streamEvents(await loop.request());
+      const toolUses: ToolUseBlock[] = [];
+      const runs = new Map<string, ToolRun>();
+      const inFlight = new Set<Promise<Step>>();
+      let pendingNext: Promise<Step> | null = stream.next().then((next) => ({ kind: "stream", next }));
+      let final: StreamResult | undefined;
+
+      try {
+        // Interleave stream events with tool completions
+        while (pendingNext || inFlight.size > 0) {
+          const step = await Promise.race([...(pendingNext ? [pendingNext] : []), ...inFlight]);
+
+          if (step.kind === "tool") {
+            inFlight.delete(step.promise);
+            const { toolUse, run } = step;
+            runs.set(toolUse.id, run);
+            if (run.kind === "denied") {
+              yield { type: "tool_denied", turn, toolUse, message: run.denial.message };
+              continue;
+            }
+            const { input, result, isError, timing } = run.outcome;
+            onToolUse?.(toolUse.name, input, result, timing);
+            yield { type: "tool_result", turn, toolUse, result, isError, timing };
+            continue;
+          }
+
+          if (step.next.done) {
+            final = step.next.value;
+            pendingNext = null;
+            continue;
+          }
+
+          pendingNext = stream.next().then((next) => ({ kind: "stream", next }));
+          const event = step.next.value;
+
+          if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+            yield { type: "text_delta", turn, text: event.delta.text };
+          } else if (event.type === "content_block_delta" && event.delta.type === "thinking_delta") {
+            yield { type: "thinking_delta", turn, thinking: event.delta.thinking };
+          } else if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+            yield { type: "tool_use_start", turn, id: event.content_block.id, name: event.content_block.name };
+          } else if (event.type === "content_block_stop" && event.content_block.type === "tool_use") {
+            const toolUse = event.content_block;
+            toolUses.push(toolUse);
+            yield { type: "tool_use_complete", turn, toolUse };
+
+            const promise: Promise<Step> = loop.runner
+              .run(toolUse, loop.hookContext())
+              .then((run) => ({ kind: "tool", toolUse, run, promise }));
+            promise.catch(() => {}); // Surfaced through the race; avoid unhandled rejection noise
+            inFlight.add(promise);
+          }
         }
+      } finally {
+        // Consumer stopped early or something threw: the read one event ahead
+        // may still reject (e.g. once aborted) with nobody awaiting it. Then
+        // close the request, and let the tools already started finish rather
+        // than run on unobserved
+        pendingNext?.catch(() => {});
+        stream.return?.().catch(() => {});
+        if (inFlight.size > 0) await Promise.allSettled(inFlight);
       }
 
-      // Add tool results as user message
-      messages.push({
-        role: "user",
-        content: toolResults,
-      });
-    } else {
-      // Unknown stop reason, break
-      console.warn(`Unexpected stop_reason: ${response.stop_reason}`);
-      break;
+      const response = final!.message;
+      await loop.addResponse(response, final!);
+
+      // Tools start before the stop_reason is known, so whatever ran is
+      // reported and answered whichever way the turn ended
+      const toolResults = loop.addToolResults(toolUses, toolUses.map((toolUse) => runs.get(toolUse.id)!));
+      await loop.endTurn(response, toolResults);
+      yield { type: "turn_end", turn, stopReason: response.stop_reason, usage: response.usage };
+      if (response.stop_reason === "tool_use") continue;
+
+      // Stop, unless a hook keeps the loop going (see executeToolLoop)
+      if (!(await loop.resume(response, toolResults))) break;
     }
+  } finally {
+    loop.cleanup();
   }
 
-  return {
-    content: finalContent,
-    turns,
-    totalInputTokens,
-    totalOutputTokens,
-    toolCalls,
-  };
+  const result = loop.result();
+  yield { type: "done", result };
+  return result;
 }
 
 // ============================================
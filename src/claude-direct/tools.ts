@@ -0,0 +1,63 @@
+/**
+ * Tools defined with a zod input schema
+ *
+ * defineTool derives input_schema from the schema's input side (fields with
+ * a default are optional, transformed fields keep their input type) and wraps
+ * the handler so the model's input is validated before it runs. Input that fails validation
+ * never reaches the handler: the zod issues go back to the model as an
+ * is_error tool_result, so it can correct the call.
+ *
+ *   const weather = defineTool({
+ *     name: "get_weather",
+ *     description: "Current weather for a city",
+ *     input: z.object({ city: z.string(), unit: z.enum(["c", "f"]).default("c") }),
+ *     handler: async ({ city, unit }) => `22°${unit} in ${city}`,
+ *   });
+ *   await executeToolLoop(client, { messages, tools: [weather] });
+ */
+
+import { z } from "zod";
+import { ClaudeDirectError } from "./errors.js";
+import { schemaTool } from "./structured.js";
+import type { ToolContext, ToolDefinition, ToolHandler, ToolOutput } from "./tool-loop.js";
+
+export interface ToolSpec<T extends z.ZodObject> {
+  name: string;
+  description: string;
+  /** Schema of the tool input (sent as input_schema, checked before the handler runs) */
+  input: T;
+  /** Receives the parsed input: defaults applied, transforms run */
+  handler: (input: z.output<T>, context: ToolContext) => Promise<ToolOutput>;
+}
+
+/**
+ * A tool was called with input that does not match its schema
+ */
+export class ToolInputError extends ClaudeDirectError {
+  constructor(
+    message: string,
+    readonly issues: z.core.$ZodIssue[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Tool definition with its validating handler attached (pass it in `tools`;
+ * no toolHandlers entry needed)
+ */
+export function defineTool<T extends z.ZodObject>(spec: ToolSpec<T>): ToolDefinition & { handler: ToolHandler } {
+  const { tool } = schemaTool(spec.input, spec.name, spec.description);
+
+  return {
+    ...tool,
+    input_schema: tool.input_schema as ToolDefinition["input_schema"],
+    handler: async (input, context) => {
+      const parsed = spec.input.safeParse(input);
+      if (!parsed.success) {
+        throw new ToolInputError(`Invalid input for ${spec.name}:\n${z.prettifyError(parsed.error)}`, parsed.error.issues);
+      }
+      return spec.handler(parsed.data, context);
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Messages API wire types shared by the client, streaming and the tool loop
+ */
+
+/**
+ * Prompt cache breakpoint (see caching.ts)
+ */
+export interface CacheControl {
+  type: "ephemeral";
+  ttl?: "5m" | "1h";
+}
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+  /** Sources the text is drawn from (responses to documents with citations enabled) */
+  citations?: Citation[] | null;
+  cache_control?: CacheControl;
+}
+
+/**
+ * Passage of a document (or search result) that a text block cites
+ */
+export type Citation =
+  | {
+      type: "char_location";
+      cited_text: string;
+      document_index: number;
+      document_title: string | null;
+      start_char_index: number;
+      end_char_index: number;
+    }
+  | {
+      type: "page_location";
+      cited_text: string;
+      document_index: number;
+      document_title: string | null;
+      start_page_number: number;
+      end_page_number: number;
+    }
+  | {
+      type: "content_block_location";
+      cited_text: string;
+      document_index: number;
+      document_title: string | null;
+      start_block_index: number;
+      end_block_index: number;
+    }
+  | {
+      type: "web_search_result_location";
+      cited_text: string;
+      url: string;
+      title: string | null;
+      encrypted_index: string;
+    };
+
+export interface ImageBlock {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+  cache_control?: CacheControl;
+}
+
+/**
+ * PDF or plain-text document (see content.ts for builders)
+ */
+export interface DocumentBlock {
+  type: "document";
+  source:
+    | { type: "base64"; media_type: "application/pdf"; data: string }
+    | { type: "text"; media_type: "text/plain"; data: string }
+    | { type: "url"; url: string };
+  title?: string;
+  /** Extra information about the document for the model (not cited) */
+  context?: string;
+  citations?: { enabled: boolean };
+  cache_control?: CacheControl;
+}
+
+export interface ToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  cache_control?: CacheControl;
+}
+
+/**
+ * Payload of a tool_result: plain text, or text, image and document blocks
+ */
+export type ToolResultContent = string | Array<TextBlock | ImageBlock | DocumentBlock>;
+
+export interface ToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: ToolResultContent;
+  is_error?: boolean;
+  cache_control?: CacheControl;
+}
+
+export interface ThinkingBlock {
+  type: "thinking";
+  thinking: string;
+  signature: string;
+}
+
+export interface RedactedThinkingBlock {
+  type: "redacted_thinking";
+  data: string;
+}
+
+export type ContentBlock =
+  | TextBlock
+  | ImageBlock
+  | DocumentBlock
+  | ToolUseBlock
+  | ToolResultBlock
+  | ThinkingBlock
+  | RedactedThinkingBlock;
+
+/**
+ * How the model may use the offered tools ("tool" and "any" are rejected with thinking)
+ */
+export type ToolChoice =
+  | { type: "auto"; disable_parallel_tool_use?: boolean }
+  | { type: "any"; disable_parallel_tool_use?: boolean }
+  | { type: "tool"; name: string; disable_parallel_tool_use?: boolean }
+  | { type: "none" };
+
+export interface Message {
+  role: "user" | "assistant";
+  content: string | ContentBlock[];
+}
+
+export interface Usage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+/**
+ * Complete assistant message as returned by /v1/messages
+ */
+export interface APIMessage {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: ContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: Usage;
+}